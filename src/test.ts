@@ -42,4 +42,9 @@ proxy.on('upstream:message', (context) => {
     console.log('upstream message:', context)
 })
 
+process.on('SIGTERM', async () => {
+    await proxy.close({ drainTimeoutMs: 10_000 })
+    process.exit(0)
+})
+
 console.log('Proxy server is running on ws://localhost:3000')
\ No newline at end of file
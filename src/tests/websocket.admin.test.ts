@@ -0,0 +1,184 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { AdminApi } from "../websocket/websocket.admin";
+import { WsProxy } from "../websocket/websocket.proxy";
+
+describe("AdminApi", () => {
+    const UPSTREAM_PORT = 9700;
+    const BASE_PORT = 9710;
+    const TOKEN = "s3cret";
+    let counter = 0;
+    const nextPort = () => BASE_PORT + (++counter);
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    let upstreamServer: any;
+
+    beforeAll(() => {
+        upstreamServer = Bun.serve({
+            port: UPSTREAM_PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string | Buffer) {
+                    ws.send(`Echo: ${message}`);
+                },
+            },
+        });
+    });
+
+    afterAll(() => {
+        upstreamServer?.stop();
+    });
+
+    const createProxy = () => {
+        const port = nextPort();
+        let sessionId = "";
+        const proxy = new WsProxy({
+            hostname: "localhost",
+            port,
+            admin: { token: TOKEN },
+            rootFunction: async () => new Response("root"),
+        })
+            .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+            .on("client:connected", (data) => sessionId = data.sessionId);
+        return { proxy, port, sessionId: () => sessionId };
+    };
+
+    const api = (port: number, path: string, init: { method?: string, body?: unknown, token?: string } = {}) =>
+        fetch(`http://localhost:${port}${path}`, {
+            method: init.method ?? "GET",
+            headers: { authorization: `Bearer ${init.token ?? TOKEN}` },
+            body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        });
+
+    const connect = async (port: number) => {
+        const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+        await new Promise(resolve => ws.onopen = resolve);
+        return ws;
+    };
+
+    test("should require the bearer token", async () => {
+        const { port } = createProxy();
+
+        const missing = await fetch(`http://localhost:${port}/admin/status`);
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+        expect((await api(port, "/admin/status", { token: "wrong" })).status).toBe(401);
+        expect((await api(port, "/admin/status")).status).toBe(200);
+    });
+
+    test("should leave other paths to rootFunction", async () => {
+        const { port } = createProxy();
+
+        expect(await (await fetch(`http://localhost:${port}/health`)).text()).toBe("root");
+        expect(await (await fetch(`http://localhost:${port}/administrator`)).text()).toBe("root");
+        expect((await api(port, "/admin/unknown")).status).toBe(404);
+    });
+
+    test("should answer 400 to a malformed path", async () => {
+        const { port } = createProxy();
+
+        const response = await api(port, "/admin/sessions/%E0");
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: "Malformed path" });
+    });
+
+    test("should report status and uptime", async () => {
+        const { port } = createProxy();
+        const ws = await connect(port);
+
+        const status = await (await api(port, "/admin/status")).json();
+        expect(status).toMatchObject({ sessions: 1, upstreams: 1, routes: 1, closing: false });
+        expect(status.uptimeMs).toBeGreaterThanOrEqual(0);
+        ws.close();
+    });
+
+    test("should list, inspect and kick sessions", async () => {
+        const { port, sessionId } = createProxy();
+        const ws = await connect(port);
+        const closed = new Promise<[number, string]>(resolve => ws.onclose = (event) => resolve([event.code, event.reason]));
+
+        const sessions = await (await api(port, "/admin/sessions")).json();
+        expect(sessions.map((session: any) => session.sessionId)).toEqual([sessionId()]);
+        expect(await (await api(port, "/admin/sessions?param=id&value=CP002")).json()).toEqual([]);
+
+        const session = await (await api(port, `/admin/sessions/${sessionId()}`)).json();
+        expect(session).toMatchObject({ route: "/ocpp/:id", params: { id: "CP001" }, capturing: false });
+        expect((await api(port, "/admin/sessions/unknown")).status).toBe(404);
+
+        const kicked = await api(port, `/admin/sessions/${sessionId()}`, { method: "DELETE", body: { code: 4000, reason: "admin" } });
+        expect(kicked.status).toBe(200);
+        expect(await closed).toEqual([4000, "admin"]);
+    });
+
+    test("should toggle traffic capture", async () => {
+        const { port, sessionId } = createProxy();
+        const ws = await connect(port);
+        const path = `/admin/sessions/${sessionId()}/capture`;
+
+        expect((await api(port, path, { method: "POST", body: { enabled: "yes" } })).status).toBe(400);
+        expect(await (await api(port, path, { method: "POST", body: { enabled: true, limit: 10 } })).json()).toEqual({ capturing: true });
+        const reply = new Promise(resolve => ws.onmessage = resolve);
+        ws.send("hello");
+        await reply;
+        await sleep(20);
+
+        const capture = await (await api(port, path)).json();
+        expect(capture.capturing).toBe(true);
+        expect(capture.frames.map(({ direction, type, data, bytes }: any) => ({ direction, type, data, bytes }))).toEqual([
+            { direction: "upstream", type: "text", data: "hello", bytes: 5 },
+            { direction: "downstream", type: "text", data: "Echo: hello", bytes: 11 },
+        ]);
+
+        await api(port, path, { method: "POST", body: { enabled: false } });
+        expect(await (await api(port, path)).json()).toEqual({ capturing: false, frames: [] });
+        ws.close();
+    });
+
+    test("should add, inspect and remove routes", async () => {
+        const { port } = createProxy();
+
+        const added = await api(port, "/admin/routes", {
+            method: "POST",
+            body: { name: "backend", pattern: "/backend/:id", target: `ws://localhost:${UPSTREAM_PORT}/ocpp/:id` },
+        });
+        expect(added.status).toBe(201);
+        expect(await added.json()).toMatchObject({ key: "backend", pattern: "/backend/:id" });
+
+        const routes = await (await api(port, "/admin/routes")).json();
+        expect(routes.map((route: any) => route.key)).toEqual(["/ocpp/:id", "backend"]);
+        expect(routes[0].health).toEqual([{ target: `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, healthy: true }]);
+
+        const route = await (await api(port, `/admin/routes/${encodeURIComponent("/ocpp/:id")}`)).json();
+        expect(route.pattern).toBe("/ocpp/:id");
+
+        expect((await api(port, "/admin/routes/backend", { method: "DELETE" })).status).toBe(200);
+        expect((await api(port, "/admin/routes/backend")).status).toBe(404);
+        expect((await api(port, "/admin/routes", { method: "POST", body: { pattern: "/x" } })).status).toBe(400);
+    });
+
+    test("should serve on a separate listener", async () => {
+        const port = nextPort();
+        const adminPort = nextPort();
+        const proxy = new WsProxy({ hostname: "localhost", port, admin: { token: TOKEN, port: adminPort, path: "/ops" } });
+
+        expect((await api(adminPort, "/ops/status")).status).toBe(200);
+        expect((await api(port, "/ops/status")).status).toBe(404);
+
+        await proxy.close({ drainTimeoutMs: 100 });
+        await expect(api(adminPort, "/ops/status")).rejects.toThrow();
+    });
+
+    test("should be mountable in a rootFunction", async () => {
+        const port = nextPort();
+        let admin: AdminApi;
+        const proxy = new WsProxy({
+            hostname: "localhost",
+            port,
+            rootFunction: async (req) => await admin.handle(req) ?? new Response("root"),
+        });
+        admin = new AdminApi(proxy, { token: TOKEN });
+
+        expect(await (await api(port, "/admin/status")).json()).toMatchObject({ sessions: 0, routes: 0 });
+        expect(await (await fetch(`http://localhost:${port}/`)).text()).toBe("root");
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { parseCredentials, unauthorized } from "../websocket/websocket.auth";
+
+describe("parseCredentials", () => {
+    const url = new URL("ws://proxy/ocpp/CP001?token=query-token");
+    const basic = (value: string) => ({ authorization: `Basic ${Buffer.from(value).toString("base64")}` });
+
+    test("should parse Basic credentials", () => {
+        expect(parseCredentials(basic("CP001:s3cr:et"), url)).toEqual({
+            scheme: "basic",
+            username: "CP001",
+            password: "s3cr:et",
+        });
+        expect(parseCredentials(basic("no-separator"), url)).toBeUndefined();
+    });
+
+    test("should parse bearer tokens", () => {
+        expect(parseCredentials({ authorization: "Bearer abc.def" }, url)).toEqual({ scheme: "bearer", token: "abc.def" });
+    });
+
+    test("should only read the query token when enabled", () => {
+        expect(parseCredentials({}, url)).toBeUndefined();
+        expect(parseCredentials({}, url, { schemes: ["query"] })).toEqual({ scheme: "query", token: "query-token" });
+        expect(parseCredentials({}, new URL("ws://proxy/?key=k"), { schemes: ["query"], queryParam: "key" }))
+            .toEqual({ scheme: "query", token: "k" });
+    });
+
+    test("should only accept the configured schemes", () => {
+        expect(parseCredentials({ authorization: "Bearer abc" }, url, { schemes: ["basic"] })).toBeUndefined();
+    });
+});
+
+describe("unauthorized", () => {
+    test("should challenge every header scheme", () => {
+        const rejection = unauthorized({ realm: "ocpp", schemes: ["basic", "bearer", "query"] });
+        expect(rejection.status).toBe(401);
+        expect(rejection.headers["www-authenticate"]).toBe('Basic realm="ocpp", charset="UTF-8", Bearer realm="ocpp"');
+    });
+
+    test("should not send a challenge for query tokens only", () => {
+        expect(unauthorized({ schemes: ["query"] }).headers).toEqual({});
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test";
+import { TargetPool } from "../websocket/websocket.balancer";
+
+describe("TargetPool", () => {
+    const TARGETS = ["ws://a.local/ocpp/:id", "ws://b.local/ocpp/:id", "ws://c.local/ocpp/:id"];
+    const noConnections = () => 0;
+
+    test("should rotate targets with round-robin", () => {
+        const pool = new TargetPool(TARGETS);
+        const picked = [1, 2, 3, 4].map(() => pool.pick({}, noConnections));
+        expect(picked).toEqual([TARGETS[0], TARGETS[1], TARGETS[2], TARGETS[0]]);
+    });
+
+    test("should pick the target with the fewest connections", () => {
+        const pool = new TargetPool(TARGETS, "least-connections");
+        const counts: Record<string, number> = { [TARGETS[0]!]: 3, [TARGETS[1]!]: 1, [TARGETS[2]!]: 2 };
+        expect(pool.pick({}, (target) => counts[target]!)).toBe(TARGETS[1]);
+    });
+
+    test("should stick to one target per hashed param", () => {
+        const pool = new TargetPool(TARGETS, { hash: "id" });
+        const first = pool.pick({ id: "CP001" }, noConnections);
+        for (let i = 0; i < 5; i++) {
+            expect(pool.pick({ id: "CP001" }, noConnections)).toBe(first);
+        }
+
+        const spread = new Set(Array.from({ length: 50 }, (_, i) => pool.pick({ id: `CP${i}` }, noConnections)));
+        expect(spread.size).toBe(TARGETS.length);
+    });
+
+    test("should only move keys of a removed target with hashing", async () => {
+        const BASE_PORT = 9310;
+        const servers = [0, 1, 2].map(i => Bun.serve({
+            port: BASE_PORT + i,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: { message() {} },
+        }));
+        const targets = [0, 1, 2].map(i => `ws://localhost:${BASE_PORT + i}/ocpp/:id`);
+        const pool = new TargetPool(targets, { hash: "id" }, { unhealthyThreshold: 1, timeoutMs: 500 });
+        const ids = Array.from({ length: 30 }, (_, i) => `CP${i}`);
+        const before = ids.map(id => pool.pick({ id }, noConnections));
+
+        servers[2]!.stop(true);
+        await pool.check();
+        const after = ids.map(id => pool.pick({ id }, noConnections));
+
+        ids.forEach((_, i) => {
+            if (before[i] !== targets[2]) expect(after[i]).toBe(before[i]);
+            else expect(after[i]).not.toBe(targets[2]);
+        });
+        servers.forEach(server => server.stop(true));
+    });
+
+    test("should take dead targets out and put them back when they recover", async () => {
+        const PORT = 9320;
+        const serve = () => Bun.serve({
+            port: PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: { message() {} },
+        });
+        let server = serve();
+        const target = `ws://localhost:${PORT}/ocpp/:id`;
+        const pool = new TargetPool([target], "round-robin", { unhealthyThreshold: 2, healthyThreshold: 1, timeoutMs: 500 });
+        const events: string[] = [];
+        pool.on("target:down", (t) => events.push(`down:${t}`)).on("target:up", (t) => events.push(`up:${t}`));
+
+        await pool.check();
+        expect(pool.isHealthy(target)).toBe(true);
+
+        server.stop(true);
+        await pool.check();
+        expect(pool.isHealthy(target)).toBe(true);
+        await pool.check();
+        expect(pool.isHealthy(target)).toBe(false);
+        expect(pool.pick({}, noConnections)).toBeUndefined();
+
+        server = serve();
+        await pool.check();
+        expect(pool.isHealthy(target)).toBe(true);
+        expect(events).toEqual([`down:${target}`, `up:${target}`]);
+        expect(pool.health).toEqual([{ target, healthy: true }]);
+        server.stop(true);
+    });
+});
@@ -16,7 +16,15 @@ describe("WebsocketClient", () => {
             },
             websocket: {
                 open(ws: any) {},
-                message(ws: any, message: string) {
+                message(ws: any, message: string | Buffer) {
+                    if (typeof message !== "string") {
+                        ws.send(message);
+                        return;
+                    }
+                    if (message === "kick") {
+                        ws.close(1012, "restart");
+                        return;
+                    }
                     ws.send(`Echo: ${message}`);
                 },
                 close(ws: any) {},
@@ -59,6 +67,44 @@ describe("WebsocketClient", () => {
         client.close();
     });
 
+    test("should receive binary frames as ArrayBuffer by default", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`);
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        const messagePromise = new Promise((resolve) => {
+            client.once("message", (msg) => resolve(msg));
+        });
+
+        client.send(new Uint8Array([1, 2, 3]));
+
+        const received = await messagePromise;
+        expect(received).toBeInstanceOf(ArrayBuffer);
+        expect(new Uint8Array(received as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+        client.close();
+    });
+
+    test("should receive binary frames as Uint8Array when configured", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, { binaryType: "uint8array" });
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        const messagePromise = new Promise((resolve) => {
+            client.once("message", (msg) => resolve(msg));
+        });
+
+        client.send(new Uint8Array([4, 5, 6]).buffer);
+
+        const received = await messagePromise;
+        expect(received).toBeInstanceOf(Uint8Array);
+        expect(received).toEqual(new Uint8Array([4, 5, 6]));
+        client.close();
+    });
+
     test("should support protocols", async () => {
         const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, "ocpp1.6");
 
@@ -80,6 +126,7 @@ describe("WebsocketClient", () => {
 
         await openPromise;
         expect(client.connected).toBe(true);
+        expect(client.protocol).toBe("ocpp1.6");
         client.close();
     });
 
@@ -116,6 +163,165 @@ describe("WebsocketClient", () => {
         expect(client.connected).toBe(false);
     });
 
+    test("should reconnect after the server drops the connection", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, {
+            reconnect: { initialDelayMs: 20, jitter: 0 },
+        });
+        const events: string[] = [];
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", (attempt, delayMs, code) => events.push(`reconnecting:${attempt}:${delayMs}:${code}`));
+        const reconnected = new Promise((resolve) => {
+            client.once("reconnected", resolve);
+        });
+
+        client.send("kick");
+        expect(await reconnected).toBe(1);
+        expect(events).toEqual(["reconnecting:1:20:1012"]);
+        expect(client.connected).toBe(true);
+
+        const messagePromise = new Promise((resolve) => {
+            client.once("message", (msg) => resolve(msg));
+        });
+        client.send("Hello again");
+        expect(await messagePromise).toBe("Echo: Hello again");
+        client.close();
+    });
+
+    test("should give up after maxAttempts and emit close", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, {
+            reconnect: { maxAttempts: 2, initialDelayMs: 10, jitter: 0 },
+        });
+        const delays: number[] = [];
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", (_attempt, delayMs) => delays.push(delayMs));
+        const closePromise = new Promise((resolve) => {
+            client.once("close", () => resolve("closed"));
+        });
+
+        mockServer.stop(true);
+
+        expect(await closePromise).toBe("closed");
+        expect(delays).toEqual([10, 20]);
+        expect(client.connected).toBe(false);
+    });
+
+    test("should keep counting attempts when a reconnect can't start", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, {
+            reconnect: { maxAttempts: 2, initialDelayMs: 10, jitter: 0 },
+        });
+        const events: string[] = [];
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", (attempt) => events.push(`reconnecting:${attempt}`));
+        const closePromise = new Promise((resolve) => {
+            client.once("close", () => resolve("closed"));
+        });
+
+        client.retarget("not a url");
+        client.send("kick");
+
+        expect(await closePromise).toBe("closed");
+        expect(events).toEqual(["reconnecting:1", "reconnecting:2"]);
+    });
+
+    test("should close without reconnecting on codes outside the policy", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, {
+            reconnect: { initialDelayMs: 10, jitter: 0, codes: [1006] },
+        });
+        let reconnects = 0;
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", () => reconnects++);
+        const closePromise = new Promise((resolve) => {
+            client.once("close", (code) => resolve(code));
+        });
+
+        client.send("kick");
+
+        expect(await closePromise).toBe(1012);
+        expect(reconnects).toBe(0);
+    });
+
+    test("should keep retrying when the restarting server refuses the upgrade", async () => {
+        const RESTARTING_PORT = 9003;
+        let refusals = 0;
+        const restartingServer = Bun.serve({
+            port: RESTARTING_PORT,
+            fetch(req, server) {
+                if (refusals > 0) {
+                    refusals--;
+                    return new Response("restarting", { status: 503 });
+                }
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string) {
+                    if (message === "kick") ws.close(1012, "restart");
+                },
+            },
+        });
+        const client = new WsClient("dummy-session-id", `ws://localhost:${RESTARTING_PORT}`, undefined, {
+            reconnect: { initialDelayMs: 10, jitter: 0 },
+        });
+        const codes: number[] = [];
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", (_attempt, _delayMs, code) => codes.push(code));
+        const reconnected = new Promise((resolve) => {
+            client.once("reconnected", resolve);
+        });
+
+        refusals = 2;
+        client.send("kick");
+
+        expect(await reconnected).toBe(3);
+        expect(codes).toHaveLength(3);
+        expect(codes[0]).toBe(1012);
+        client.close();
+        restartingServer.stop(true);
+    });
+
+    test("should not reconnect once closed from a reconnecting listener", async () => {
+        const client = new WsClient("dummy-session-id", `ws://localhost:${TEST_PORT}`, undefined, {
+            reconnect: { initialDelayMs: 10, jitter: 0 },
+        });
+        let reconnected = false;
+
+        await new Promise((resolve) => {
+            client.once("open", resolve);
+        });
+
+        client.on("reconnecting", () => client.close(1001, "Route removed"));
+        client.on("reconnected", () => reconnected = true);
+        const closePromise = new Promise((resolve) => {
+            client.once("close", (code) => resolve(code));
+        });
+
+        client.send("kick");
+
+        expect(await closePromise).toBe(1001);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(reconnected).toBe(false);
+        expect(client.connected).toBe(false);
+    });
+
     test("should handle connection to invalid URL", async () => {
         const client = new WsClient("dummy-session-id", `ws://localhost:9999`); // Invalid port
 
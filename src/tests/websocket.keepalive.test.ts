@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import net from "node:net";
+import { createHash } from "crypto";
+import { Heartbeat } from "../websocket/websocket.keepalive";
+import { WsProxy } from "../websocket/websocket.proxy";
+
+describe("Keepalive", () => {
+    const UPSTREAM_PORT = 9500;
+    const SILENT_UPSTREAM_PORT = 9501;
+    const BASE_PORT = 9510;
+    let counter = 0;
+    const nextPort = () => BASE_PORT + (++counter);
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let upstreamServer: any;
+    let silentUpstream: net.Server;
+
+    beforeAll(() => {
+        upstreamServer = Bun.serve({
+            port: UPSTREAM_PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string | Buffer) {
+                    ws.send(`Echo: ${message}`);
+                },
+            },
+        });
+
+        // Completes the handshake, then never answers a ping
+        silentUpstream = net.createServer((socket) => {
+            socket.once("data", (chunk) => {
+                const key = /sec-websocket-key: (.+)\r\n/i.exec(chunk.toString())![1]!;
+                const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+                socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+            });
+            socket.on("error", () => {});
+        }).listen(SILENT_UPSTREAM_PORT);
+    });
+
+    afterAll(() => {
+        upstreamServer?.stop();
+        silentUpstream?.close();
+    });
+
+    /**
+     * Client that upgrades, then never answers a ping
+     */
+    const silentClient = (port: number) => new Promise<net.Socket>((resolve) => {
+        const socket = net.connect(port, "127.0.0.1", () => {
+            socket.write([
+                "GET /ocpp/CP001 HTTP/1.1",
+                `Host: localhost:${port}`,
+                "Upgrade: websocket",
+                "Connection: Upgrade",
+                "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                "Sec-WebSocket-Version: 13",
+                "", "",
+            ].join("\r\n"));
+        });
+        socket.once("data", () => resolve(socket));
+        socket.on("error", () => {});
+    });
+
+    describe("Heartbeat", () => {
+        test("should measure the round-trip of answered pings", async () => {
+            const heartbeat: Heartbeat = new Heartbeat({ intervalMs: 20 }, () => setTimeout(() => heartbeat.pong(), 5), () => {}).start();
+
+            await sleep(70);
+            heartbeat.stop();
+            expect(heartbeat.rtt).toBeGreaterThanOrEqual(4);
+        });
+
+        test("should time out after maxMissed unanswered pings", async () => {
+            let pings = 0;
+            const timeouts: number[] = [];
+            new Heartbeat({ intervalMs: 20, maxMissed: 3 }, () => pings++, (missed) => timeouts.push(missed)).start();
+
+            await sleep(150);
+            expect(timeouts).toEqual([3]);
+            expect(pings).toBe(3);
+        });
+    });
+
+    test("should drop a client that stops answering pings", async () => {
+        const port = nextPort();
+        const timeouts: number[] = [];
+        let upstreamClose: number | undefined;
+        new WsProxy({ hostname: "localhost", port, keepalive: { client: { intervalMs: 50, maxMissed: 2 } } })
+            .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+            .on("client:timeout", (_, missed) => timeouts.push(missed))
+            .on("upstream:disconnected", (_, code) => upstreamClose = code);
+
+        const socket = await silentClient(port);
+        const closed = new Promise(resolve => socket.on("close", resolve));
+        await closed;
+        await sleep(50);
+
+        expect(timeouts).toEqual([2]);
+        expect(upstreamClose).toBe(1001);
+    });
+
+    test("should drop an upstream that stops answering pings", async () => {
+        const port = nextPort();
+        const timeouts: any[] = [];
+        new WsProxy({ hostname: "localhost", port, keepalive: { upstream: { intervalMs: 50, maxMissed: 2 } } })
+            .route("/ocpp/:id", `ws://localhost:${SILENT_UPSTREAM_PORT}/ocpp/:id`)
+            .on("upstream:timeout", (data, missed) => timeouts.push({ url: data.url, missed }));
+
+        const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+        const closed = new Promise<number>(resolve => ws.onclose = (event) => resolve(event.code));
+
+        expect(await closed).toBe(1014);
+        expect(timeouts).toEqual([{ url: `ws://localhost:${SILENT_UPSTREAM_PORT}/ocpp/CP001`, missed: 2 }]);
+    });
+
+    test("should expose the round-trip of both legs", async () => {
+        const port = nextPort();
+        let sessionId = "";
+        const proxy = new WsProxy({
+            hostname: "localhost",
+            port,
+            keepalive: { client: { intervalMs: 20 }, upstream: { intervalMs: 20 } },
+        })
+            .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+            .on("client:connected", (data) => sessionId = data.sessionId);
+
+        const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+        await new Promise(resolve => ws.onopen = resolve);
+        await sleep(80);
+
+        const { rtt } = proxy.getSession(sessionId)!;
+        expect(rtt.client).toBeNumber();
+        expect(rtt.upstream).toBeNumber();
+        ws.close();
+    });
+});
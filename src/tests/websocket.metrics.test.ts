@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { MetricsRegistry } from "../websocket/websocket.metrics";
+import { WsProxy } from "../websocket/websocket.proxy";
+
+describe("Metrics", () => {
+    describe("MetricsRegistry", () => {
+        test("should render counters and gauges in the text format", () => {
+            const registry = new MetricsRegistry();
+            const counter = registry.counter("requests_total", "Requests", ["route"]);
+            const gauge = registry.gauge("queue_bytes", "Queued bytes");
+            counter.inc({ route: "/ocpp/:id" });
+            counter.inc({ route: "/ocpp/:id" }, 2);
+            counter.inc({ route: 'say "hi"\n' });
+            gauge.set({}, 42);
+
+            expect(registry.render()).toBe([
+                "# HELP requests_total Requests",
+                "# TYPE requests_total counter",
+                'requests_total{route="/ocpp/:id"} 3',
+                'requests_total{route="say \\"hi\\"\\n"} 1',
+                "# HELP queue_bytes Queued bytes",
+                "# TYPE queue_bytes gauge",
+                "queue_bytes 42",
+                "",
+            ].join("\n"));
+        });
+
+        test("should render cumulative histogram buckets", () => {
+            const registry = new MetricsRegistry();
+            const histogram = registry.histogram("latency_seconds", "Latency", ["route"], [0.1, 1]);
+            histogram.observe({ route: "a" }, 0.05);
+            histogram.observe({ route: "a" }, 0.5);
+            histogram.observe({ route: "a" }, 3);
+
+            expect(registry.render()).toContain([
+                'latency_seconds_bucket{route="a",le="0.1"} 1',
+                'latency_seconds_bucket{route="a",le="1"} 2',
+                'latency_seconds_bucket{route="a",le="+Inf"} 3',
+                'latency_seconds_sum{route="a"} 3.55',
+                'latency_seconds_count{route="a"} 3',
+            ].join("\n"));
+        });
+
+        test("should refuse duplicate metric names", () => {
+            const registry = new MetricsRegistry();
+            registry.counter("requests_total", "Requests");
+            expect(() => registry.gauge("requests_total", "Requests")).toThrow("already registered");
+        });
+    });
+
+    describe("WsProxy", () => {
+        const UPSTREAM_PORT = 9600;
+        const BASE_PORT = 9610;
+        let counter = 0;
+        const nextPort = () => BASE_PORT + (++counter);
+        let upstreamServer: any;
+
+        beforeAll(() => {
+            upstreamServer = Bun.serve({
+                port: UPSTREAM_PORT,
+                fetch(req, server) {
+                    server.upgrade(req);
+                },
+                websocket: {
+                    message(ws: any, message: string | Buffer) {
+                        ws.send(`Echo: ${message}`);
+                    },
+                },
+            });
+        });
+
+        afterAll(() => {
+            upstreamServer?.stop();
+        });
+
+        const scrape = async (port: number, path = "/metrics") => {
+            const response = await fetch(`http://localhost:${port}${path}`);
+            expect(response.headers.get("content-type")).toStartWith("text/plain; version=0.0.4");
+            return response.text();
+        };
+
+        test("should label sessions, upgrades and traffic by route pattern", async () => {
+            const port = nextPort();
+            const silent = () => {};
+            new WsProxy({
+                hostname: "localhost",
+                port,
+                metrics: {},
+                logger: { error: silent, warn: silent, info: silent, debug: silent },
+            })
+                .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+                .route("/down/:id", "ws://localhost:9699/down/:id");
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            await new Promise(resolve => ws.onopen = resolve);
+            const reply = new Promise(resolve => ws.onmessage = resolve);
+            ws.send("hello");
+            await reply;
+            const upgrade = (path: string) => fetch(`http://localhost:${port}${path}`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            });
+            await upgrade("/unknown/CP002");
+            await upgrade("/down/CP003");
+
+            const body = await scrape(port);
+            expect(body).toContain('wsproxy_sessions_active{route="/ocpp/:id"} 1');
+            expect(body).toContain('wsproxy_upgrades_accepted_total{route="/ocpp/:id"} 1');
+            expect(body).toContain('wsproxy_upgrades_rejected_total{route="",status="404"} 1');
+            expect(body).toContain('wsproxy_upgrades_rejected_total{route="/down/:id",status="502"} 1');
+            expect(body).toContain('wsproxy_upstream_failures_total{route="/down/:id",code="UPSTREAM_REFUSED"} 1');
+            expect(body).toContain('wsproxy_frames_total{route="/ocpp/:id",direction="upstream"} 1');
+            expect(body).toContain('wsproxy_bytes_total{route="/ocpp/:id",direction="downstream"} 11');
+            expect(body).toContain('wsproxy_upstream_connect_seconds_count{route="/ocpp/:id"} 1');
+            expect(body).not.toContain("CP001");
+
+            const closed = new Promise(resolve => ws.onclose = resolve);
+            ws.close();
+            await closed;
+            await Bun.sleep(20);
+            expect(await scrape(port)).toContain('wsproxy_sessions_active{route="/ocpp/:id"} 0');
+        });
+
+        test("should count middleware drops and errors", async () => {
+            const port = nextPort();
+            const silent = () => {};
+            const proxy = new WsProxy({
+                hostname: "localhost",
+                port,
+                metrics: { path: "/internal/metrics" },
+                logger: { error: silent, warn: silent, info: silent, debug: silent },
+            })
+                .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+                .useUpstream((context, next) => {
+                    if (context.message.data === "drop") return context.drop();
+                    if (context.message.data === "boom") throw new Error("boom");
+                    return next();
+                });
+            proxy.metricsRegistry!.counter("app_custom_total", "Custom").inc();
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            await new Promise(resolve => ws.onopen = resolve);
+            ws.send("drop");
+            ws.send("boom");
+            await Bun.sleep(50);
+
+            const body = await scrape(port, "/internal/metrics");
+            expect(body).toContain('wsproxy_messages_dropped_total{route="/ocpp/:id",direction="upstream"} 1');
+            expect(body).toContain('wsproxy_middleware_errors_total{route="/ocpp/:id",direction="upstream"} 1');
+            expect(body).toContain("app_custom_total 1");
+            expect((await fetch(`http://localhost:${port}/metrics`)).status).toBe(404);
+            ws.close();
+        });
+
+        test("should fall back to rootFunction for other paths", async () => {
+            const port = nextPort();
+            new WsProxy({
+                hostname: "localhost",
+                port,
+                metrics: {},
+                rootFunction: async () => new Response("root"),
+            });
+
+            expect(await (await fetch(`http://localhost:${port}/health`)).text()).toBe("root");
+            expect(await scrape(port)).toContain("# TYPE wsproxy_sessions_active gauge");
+        });
+
+        test("should not serve metrics unless enabled", async () => {
+            const port = nextPort();
+            const proxy = new WsProxy({ hostname: "localhost", port });
+
+            expect(proxy.metricsRegistry).toBeUndefined();
+            expect((await fetch(`http://localhost:${port}/metrics`)).status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { FormationViolation } from "../websocket/websocket.errors";
+import { parseOcpp, serializeOcpp, type OcppMessage } from "../websocket/websocket.ocpp";
+import { WsProxy, isOcppCall, type WebsocketProxyProps } from "../websocket/websocket.proxy";
+
+describe("OCPP-J", () => {
+    describe("parseOcpp", () => {
+        test("should parse CALL, CALLRESULT and CALLERROR", () => {
+            expect(parseOcpp('[2,"19223201","BootNotification",{"chargePointVendor":"VendorX"}]')).toEqual({
+                messageTypeId: 2,
+                uniqueId: "19223201",
+                action: "BootNotification",
+                payload: { chargePointVendor: "VendorX" },
+            });
+            expect(parseOcpp('[3,"19223201",{"status":"Accepted"}]')).toEqual({
+                messageTypeId: 3,
+                uniqueId: "19223201",
+                payload: { status: "Accepted" },
+            });
+            expect(parseOcpp('[4,"19223201","NotImplemented","Unknown action",{}]')).toEqual({
+                messageTypeId: 4,
+                uniqueId: "19223201",
+                errorCode: "NotImplemented",
+                errorDescription: "Unknown action",
+                errorDetails: {},
+            });
+        });
+
+        test("should raise FormationViolation for malformed frames", () => {
+            const violation = (text: string) => {
+                try {
+                    parseOcpp(text);
+                } catch (error) {
+                    return error as FormationViolation;
+                }
+                throw new Error("expected a FormationViolation");
+            };
+
+            expect(violation("not json")).toBeInstanceOf(FormationViolation);
+            expect(violation('{"a":1}').message).toBe("Frame is not a JSON array");
+            expect(violation('[2,"","Heartbeat",{}]').uniqueId).toBeUndefined();
+            expect(violation('[2,"42","Heartbeat"]')).toMatchObject({ errorCode: "FormationViolation", uniqueId: "42" });
+            expect(violation('[2,"42","Heartbeat",[]]').message).toBe("CALL payload must be an object");
+            expect(violation('[3,"42",{},1]').uniqueId).toBeUndefined();
+            expect(violation('[4,"42","GenericError",{}]').message).toBe("CALLERROR must have 5 elements");
+            expect(violation('[7,"42"]').message).toBe("Unknown message type id 7");
+        });
+
+        test("should serialize back to the same frame", () => {
+            const frames = [
+                '[2,"1","Heartbeat",{}]',
+                '[3,"1",{"currentTime":"2024-01-01T00:00:00Z"}]',
+                '[4,"1","InternalError","boom",{"retry":false}]',
+            ];
+            for (const frame of frames) expect(serializeOcpp(parseOcpp(frame))).toBe(frame);
+            expect(serializeOcpp({ ...parseOcpp('[3,"1",{}]'), action: "Heartbeat" } as OcppMessage)).toBe('[3,"1",{}]');
+        });
+    });
+
+    describe("WsProxy", () => {
+        const UPSTREAM_PORT = 9800;
+        const BASE_PORT = 9810;
+        let counter = 0;
+        const nextPort = () => BASE_PORT + (++counter);
+        const upstreamReceived: string[] = [];
+        let upstreamServer: any;
+
+        beforeAll(() => {
+            // Central system answering every CALL with the payload it received
+            upstreamServer = Bun.serve({
+                port: UPSTREAM_PORT,
+                fetch(req, server) {
+                    server.upgrade(req);
+                },
+                websocket: {
+                    message(ws: any, message: string) {
+                        upstreamReceived.push(message);
+                        try {
+                            const [type, id, , payload] = JSON.parse(message);
+                            if (type === 2) ws.send(JSON.stringify([3, id, { status: "Accepted", received: payload }]));
+                        } catch {
+                            ws.send(`raw: ${message}`);
+                        }
+                    },
+                },
+            });
+        });
+
+        afterAll(() => {
+            upstreamServer?.stop();
+        });
+
+        const createProxy = (props: Partial<WebsocketProxyProps> = { ocpp: {} }) => {
+            const port = nextPort();
+            const proxy = new WsProxy({ hostname: "localhost", port, ...props })
+                .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`);
+            return { proxy, port };
+        };
+
+        const connect = async (port: number) => {
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`, ["ocpp1.6"]);
+            await new Promise(resolve => ws.onopen = resolve);
+            return ws;
+        };
+
+        const nextMessage = (ws: WebSocket) => new Promise<string>(resolve => ws.onmessage = (event) => resolve(event.data));
+
+        test("should run onOcpp handlers for a CALL and its result", async () => {
+            const { proxy, port } = createProxy();
+            const seen: any[] = [];
+            proxy
+                .onOcpp("BootNotification", (context, next) => {
+                    seen.push({ direction: context.direction, type: context.ocpp.messageTypeId, action: context.ocpp.action });
+                    return next();
+                })
+                .onOcpp("Heartbeat", () => {
+                    throw new Error("should not run");
+                });
+
+            const ws = await connect(port);
+            const reply = nextMessage(ws);
+            ws.send('[2,"1","BootNotification",{"chargePointVendor":"VendorX"}]');
+
+            expect(JSON.parse(await reply)).toEqual([3, "1", { status: "Accepted", received: { chargePointVendor: "VendorX" } }]);
+            expect(seen).toEqual([
+                { direction: "upstream", type: 2, action: "BootNotification" },
+                { direction: "downstream", type: 3, action: "BootNotification" },
+            ]);
+            ws.close();
+        });
+
+        test("should forward edits made to the parsed message", async () => {
+            const { proxy, port } = createProxy();
+            proxy.use((context, next) => {
+                if (isOcppCall(context)) context.ocpp.payload.chargePointVendor = "Rewritten";
+                return next();
+            });
+
+            const ws = await connect(port);
+            const reply = nextMessage(ws);
+            ws.send('[2, "2", "BootNotification", {"chargePointVendor": "VendorX"}]');
+
+            expect(JSON.parse(await reply)[2].received).toEqual({ chargePointVendor: "Rewritten" });
+            expect(upstreamReceived.at(-1)).toBe('[2,"2","BootNotification",{"chargePointVendor":"Rewritten"}]');
+            ws.close();
+        });
+
+        test("should keep the original text when the parsed message is untouched", async () => {
+            const { port } = createProxy();
+            const ws = await connect(port);
+            const reply = nextMessage(ws);
+            ws.send('[2, "3", "Heartbeat", {}]');
+            await reply;
+
+            expect(upstreamReceived.at(-1)).toBe('[2, "3", "Heartbeat", {}]');
+            ws.close();
+        });
+
+        test("should answer a malformed CALL with a FormationViolation CALLERROR", async () => {
+            const { proxy, port } = createProxy();
+            const violations: FormationViolation[] = [];
+            proxy.on("ocpp:violation", (error) => violations.push(error));
+
+            const ws = await connect(port);
+            const reply = nextMessage(ws);
+            ws.send('[2,"4","Heartbeat"]');
+
+            expect(JSON.parse(await reply)).toEqual([4, "4", "FormationViolation", "CALL must have 4 elements", {}]);
+            expect(violations[0]).toBeInstanceOf(FormationViolation);
+            expect(upstreamReceived).not.toContain('[2,"4","Heartbeat"]');
+            ws.close();
+        });
+
+        test("should forward malformed frames when configured", async () => {
+            const { port } = createProxy({ ocpp: { malformed: "forward" } });
+            const ws = await connect(port);
+            const reply = nextMessage(ws);
+            ws.send("hello");
+
+            expect(await reply).toBe("raw: hello");
+            ws.close();
+        });
+
+        test("should leave frames unparsed without the ocpp option or on opted-out routes", async () => {
+            const contexts: any[] = [];
+            const { proxy, port } = createProxy({});
+            proxy.use((context, next) => {
+                contexts.push(context.ocpp);
+                return next();
+            });
+            const optedOut = createProxy({ ocpp: {} });
+            optedOut.proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, { ocpp: false });
+
+            for (const target of [port, optedOut.port]) {
+                const ws = await connect(target);
+                const reply = nextMessage(ws);
+                ws.send("hello");
+                expect(await reply).toBe("raw: hello");
+                ws.close();
+            }
+            expect(contexts).toEqual([undefined, undefined]);
+        });
+    });
+});
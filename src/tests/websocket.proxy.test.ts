@@ -0,0 +1,1701 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { WsProxy, type WebsocketProxyProps, type BackpressureOptions } from "../websocket/websocket.proxy";
+import { ProxyError } from "../websocket/websocket.errors";
+
+describe("WsProxy", () => {
+    const UPSTREAM_PORT = 9200;
+    const BASE_PORT = 9210;
+    let counter = 0;
+    const nextPort = () => BASE_PORT + (++counter);
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    let upstreamServer: any;
+    const upstreamReceived: string[] = [];
+    const upstreamBinary: Uint8Array[] = [];
+    const upstreamRequests: Request[] = [];
+    const upstreamCloses: [number, string][] = [];
+
+    beforeAll(() => {
+        upstreamServer = Bun.serve({
+            port: UPSTREAM_PORT,
+            fetch(req, server) {
+                upstreamRequests.push(req);
+                if (req.headers.get("upgrade") === "websocket") {
+                    server.upgrade(req);
+                }
+            },
+            websocket: {
+                message(ws: any, message: string | Buffer) {
+                    if (typeof message !== "string") {
+                        upstreamBinary.push(new Uint8Array(message));
+                        ws.send(message);
+                        return;
+                    }
+                    upstreamReceived.push(message);
+                    if (message === "kick") {
+                        ws.close(1012, "restart");
+                        return;
+                    }
+                    if (message.startsWith("close:")) {
+                        const [, code, reason] = message.split(":");
+                        ws.close(Number(code), reason);
+                        return;
+                    }
+                    if (message === "terminate") {
+                        ws.terminate();
+                        return;
+                    }
+                    ws.send(`Echo: ${message}`);
+                },
+                close(_ws: any, code: number, reason: string) {
+                    upstreamCloses.push([code, reason]);
+                },
+            },
+        });
+    });
+
+    afterAll(() => {
+        upstreamServer?.stop();
+    });
+
+    const connect = async (port: number) => {
+        const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+        await new Promise(resolve => {
+            ws.onopen = resolve;
+        });
+        return ws;
+    };
+
+    const createProxy = (backpressure?: BackpressureOptions, props: Partial<WebsocketProxyProps> = {}) => {
+        const port = nextPort();
+        const proxy = new WsProxy({ hostname: "localhost", port, backpressure, ...props })
+            .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`);
+        return { proxy, port };
+    };
+
+    test("should forward frames in both directions", async () => {
+        const { port } = createProxy();
+        const ws = await connect(port);
+
+        const messagePromise = new Promise((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send("Hello");
+
+        expect(await messagePromise).toBe("Echo: Hello");
+        ws.close();
+    });
+
+    test("should run middlewares in registration order and allow rewriting", async () => {
+        const { proxy, port } = createProxy();
+        const order: string[] = [];
+
+        proxy
+            .use(async (context, next) => {
+                order.push(`first:${context.direction}`);
+                await next();
+            })
+            .useUpstream(async (context, next) => {
+                order.push("second");
+                if (context.message.type === "text") {
+                    context.message.data = context.message.data.toUpperCase();
+                }
+                await next();
+            });
+
+        const ws = await connect(port);
+        const messagePromise = new Promise((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send("rewrite me");
+
+        expect(await messagePromise).toBe("Echo: REWRITE ME");
+        expect(order).toEqual(["first:upstream", "second", "first:downstream"]);
+        ws.close();
+    });
+
+    test("should only run direction and type filters on matching frames", async () => {
+        const { proxy, port } = createProxy();
+        const seen: string[] = [];
+
+        proxy
+            .useDownstream(async (context, next) => {
+                seen.push(`downstream:${context.message.type}`);
+                await next();
+            })
+            .useText(async (context, next) => {
+                seen.push(`text:${context.direction}`);
+                await next();
+            })
+            .useBinary(async (context, next) => {
+                seen.push("binary");
+                await next();
+            });
+
+        const ws = await connect(port);
+        const messagePromise = new Promise((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send("filter");
+        await messagePromise;
+
+        expect(seen).toEqual(["text:upstream", "downstream:text", "text:downstream"]);
+        ws.close();
+    });
+
+    test("should drop frames and emit message:dropped", async () => {
+        const { proxy, port } = createProxy();
+        let droppedData: unknown;
+
+        proxy
+            .useText((context, next) => {
+                if (context.message.data === "drop me") {
+                    context.drop();
+                    return;
+                }
+                return next();
+            })
+            .on("message:dropped", (context) => {
+                droppedData = context.message.data;
+            });
+
+        const ws = await connect(port);
+        const received: string[] = [];
+        ws.onmessage = (event) => received.push(event.data);
+
+        ws.send("drop me");
+        ws.send("keep me");
+        await sleep(100);
+
+        expect(droppedData).toBe("drop me");
+        expect(received).toEqual(["Echo: keep me"]);
+        expect(upstreamReceived).not.toContain("drop me");
+        ws.close();
+    });
+
+    test("should emit middleware:error and not forward the frame", async () => {
+        const { proxy, port } = createProxy();
+        let caught: Error | undefined;
+
+        proxy
+            .useUpstream(() => {
+                throw new Error("boom");
+            })
+            .on("middleware:error", (error) => {
+                caught = error;
+            });
+
+        const ws = await connect(port);
+        const received: string[] = [];
+        ws.onmessage = (event) => received.push(event.data);
+
+        ws.send("explode");
+        await sleep(100);
+
+        expect(caught?.message).toBe("boom");
+        expect(received).toEqual([]);
+        ws.close();
+    });
+
+    test("should keep frame order with async middlewares", async () => {
+        const { proxy, port } = createProxy();
+
+        proxy.useUpstream(async (context, next) => {
+            if (context.message.data === "slow") await sleep(50);
+            await next();
+        });
+
+        const ws = await connect(port);
+        const received: string[] = [];
+        ws.onmessage = (event) => received.push(event.data);
+
+        ws.send("slow");
+        ws.send("fast");
+        await sleep(150);
+
+        expect(received).toEqual(["Echo: slow", "Echo: fast"]);
+        ws.close();
+    });
+
+    test("should keep forwarding after a listener throws", async () => {
+        const { proxy, port } = createProxy();
+        const errors: string[] = [];
+
+        proxy
+            .useUpstream(async (context, next) => {
+                await sleep(20);
+                if (context.message.data === "a") {
+                    context.drop();
+                    return;
+                }
+                await next();
+            })
+            .on("message:dropped", () => {
+                throw new Error("listener failed");
+            })
+            .on("middleware:error", (error) => {
+                errors.push(error.message);
+            });
+
+        const ws = await connect(port);
+        const received: string[] = [];
+        ws.onmessage = (event) => received.push(event.data);
+
+        ws.send("a");
+        ws.send("b");
+        ws.send("c");
+        await sleep(200);
+
+        expect(errors).toEqual(["listener failed"]);
+        expect(received).toEqual(["Echo: b", "Echo: c"]);
+        ws.close();
+    });
+
+    test("should forward binary frames byte-for-byte in both directions", async () => {
+        const { proxy, port } = createProxy();
+        const types: string[] = [];
+        proxy.useBinary(async (context, next) => {
+            types.push(`${context.direction}:${context.message.data.constructor.name}`);
+            await next();
+        });
+
+        const ws = await connect(port);
+        ws.binaryType = "arraybuffer";
+        const payload = new Uint8Array(1024).map((_, index) => index % 256);
+
+        const messagePromise = new Promise<ArrayBuffer>((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send(payload);
+
+        const echoed = new Uint8Array(await messagePromise);
+        expect(upstreamBinary.at(-1)).toEqual(payload);
+        expect(echoed).toEqual(payload);
+        expect(types).toEqual(["upstream:ArrayBuffer", "downstream:ArrayBuffer"]);
+        ws.close();
+    });
+
+    test("should surface binary frames as Uint8Array when configured", async () => {
+        const { proxy, port } = createProxy(undefined, { binaryType: "uint8array" });
+        const types: string[] = [];
+        proxy.useBinary(async (context, next) => {
+            types.push(`${context.direction}:${context.message.data instanceof Uint8Array}`);
+            await next();
+        });
+
+        const ws = await connect(port);
+        ws.binaryType = "arraybuffer";
+        const payload = new Uint8Array([0, 1, 2, 253, 254, 255]);
+
+        const messagePromise = new Promise<ArrayBuffer>((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send(payload);
+
+        expect(new Uint8Array(await messagePromise)).toEqual(payload);
+        expect(types).toEqual(["upstream:true", "downstream:true"]);
+        ws.close();
+    });
+
+    test("should pick the most specific route regardless of registration order", async () => {
+        const { proxy, port } = createProxy();
+        proxy
+            .unroute("/ocpp/:id")
+            .route("/ocpp/**", "ws://localhost:9299/unreachable/**")
+            .route("/ocpp/:id(CP\\d+)", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`);
+
+        const ws = await connect(port);
+        const messagePromise = new Promise((resolve) => {
+            ws.onmessage = (event) => resolve(event.data);
+        });
+        ws.send("specific");
+
+        expect(await messagePromise).toBe("Echo: specific");
+        ws.close();
+    });
+
+    test("should route by host, header and subprotocol", async () => {
+        const SECOND_UPSTREAM_PORT = 9203;
+        const secondServer = Bun.serve({
+            port: SECOND_UPSTREAM_PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string) {
+                    ws.send(`Second: ${message}`);
+                },
+            },
+        });
+        const second = `ws://localhost:${SECOND_UPSTREAM_PORT}/ocpp/:id`;
+        const { proxy, port } = createProxy();
+        proxy
+            .route("/ocpp/:id", second, { name: "ocpp2", subprotocols: ["ocpp2.0.1"] })
+            .route("/ocpp/:id", second, { name: "loopback-ip", host: "127.0.0.1" })
+            .route("/ocpp/:id", second, { name: "tenant", headers: { "x-tenant": "acme" } });
+
+        const ask = async (url: string, options?: any) => {
+            const ws = new WebSocket(url, options);
+            await new Promise(resolve => {
+                ws.onopen = resolve;
+            });
+            const messagePromise = new Promise<string>((resolve) => {
+                ws.onmessage = (event) => resolve(event.data);
+            });
+            ws.send("who");
+            const reply = await messagePromise;
+            ws.close();
+            return reply;
+        };
+
+        expect(await ask(`ws://localhost:${port}/ocpp/CP001`)).toBe("Echo: who");
+        expect(await ask(`ws://localhost:${port}/ocpp/CP001`, ["ocpp1.6"])).toBe("Echo: who");
+        expect(await ask(`ws://localhost:${port}/ocpp/CP001`, ["ocpp2.0.1"])).toBe("Second: who");
+        expect(await ask(`ws://127.0.0.1:${port}/ocpp/CP001`)).toBe("Second: who");
+        expect(await ask(`ws://localhost:${port}/ocpp/CP001`, { headers: { "X-Tenant": "acme" } })).toBe("Second: who");
+        secondServer.stop(true);
+    });
+
+    describe("close propagation", () => {
+        const closed = (ws: WebSocket) => new Promise<[number, string]>(resolve => {
+            ws.onclose = (event) => resolve([event.code, event.reason]);
+        });
+
+        test("should mirror the upstream close code and reason to the client", async () => {
+            const { proxy, port } = createProxy();
+            const events: any[] = [];
+            proxy.on("upstream:disconnected", (_, code, reason) => events.push([code, reason]));
+
+            const ws = await connect(port);
+            const result = closed(ws);
+            ws.send("close:4001:kicked by backend");
+
+            expect(await result).toEqual([4001, "kicked by backend"]);
+            expect(events).toEqual([[4001, "kicked by backend"]]);
+        });
+
+        test("should mirror the client close code and reason to the upstream", async () => {
+            const { proxy, port } = createProxy();
+            const events: any[] = [];
+            proxy.on("client:disconnected", (_, code, reason) => events.push([code, reason]));
+
+            const ws = await connect(port);
+            ws.close(4002, "charger reboot");
+            await sleep(100);
+
+            expect(upstreamCloses.at(-1)).toEqual([4002, "charger reboot"]);
+            expect(events).toEqual([[4002, "charger reboot"]]);
+        });
+
+        test("should map an abnormal upstream drop to a sendable code", async () => {
+            const { proxy, port } = createProxy();
+            const events: number[] = [];
+            proxy.on("upstream:disconnected", (_, code) => events.push(code));
+
+            const ws = await connect(port);
+            const result = closed(ws);
+            ws.send("terminate");
+
+            expect((await result)[0]).toBe(1014);
+            expect(events).toEqual([1006]);
+        });
+
+        test("should apply custom close code mappings", async () => {
+            const { port } = createProxy(undefined, { closeCodes: { upstream: { 1006: 4500, 4001: 4999 } } });
+
+            const dropped = await connect(port);
+            const droppedResult = closed(dropped);
+            dropped.send("terminate");
+            expect((await droppedResult)[0]).toBe(4500);
+
+            const kicked = await connect(port);
+            const kickedResult = closed(kicked);
+            kicked.send("close:4001:kicked");
+            expect(await kickedResult).toEqual([4999, "kicked"]);
+        });
+    });
+
+    describe("graceful shutdown", () => {
+        const closed = (ws: WebSocket) => new Promise<number>(resolve => {
+            ws.onclose = (event) => resolve(event.code);
+        });
+
+        test("should send going-away frames and stop accepting upgrades", async () => {
+            const { proxy, port } = createProxy();
+            const ws = await connect(port);
+            const result = closed(ws);
+
+            await proxy.close();
+
+            expect(await result).toBe(1001);
+            expect(upstreamCloses.at(-1)![0]).toBe(1001);
+            await expect(fetch(`http://localhost:${port}/`)).rejects.toThrow();
+        });
+
+        test("should wait for clients until the drain timeout", async () => {
+            const { proxy, port } = createProxy();
+            const ws = await connect(port);
+            let clientClosed = false;
+            ws.onclose = () => clientClosed = true;
+
+            const started = Date.now();
+            const closing = proxy.close({ drainTimeoutMs: 200, goingAway: false });
+            await sleep(100);
+            expect(clientClosed).toBe(false);
+
+            await closing;
+            expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+            await sleep(20);
+            expect(clientClosed).toBe(true);
+        });
+
+        test("should let in-flight middleware finish", async () => {
+            const { proxy, port } = createProxy();
+            proxy.useUpstream(async (_ctx, next) => {
+                await sleep(100);
+                await next();
+            });
+            const ws = await connect(port);
+
+            ws.send("last words");
+            await sleep(10);
+            await proxy.close();
+
+            expect(upstreamReceived).toContain("last words");
+        });
+
+        test("should return the same promise when called twice", async () => {
+            const { proxy } = createProxy();
+            const first = proxy.close({ drainTimeoutMs: 100 });
+            expect(proxy.close()).toBe(first);
+            await first;
+        });
+    });
+
+    describe("route reload", () => {
+        const OTHER_UPSTREAM_PORT = 9205;
+        const FIRST = `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`;
+        const OTHER = `ws://localhost:${OTHER_UPSTREAM_PORT}/ocpp/:id`;
+        let otherServer: any;
+        const otherRequests: Request[] = [];
+
+        beforeAll(() => {
+            otherServer = Bun.serve({
+                port: OTHER_UPSTREAM_PORT,
+                fetch(req, server) {
+                    otherRequests.push(req);
+                    server.upgrade(req);
+                },
+                websocket: {
+                    message(ws: any, message: string) {
+                        ws.send(`Other: ${message}`);
+                    },
+                },
+            });
+        });
+
+        afterAll(() => {
+            otherServer?.stop();
+        });
+
+        const echo = (ws: WebSocket, message: string) => {
+            const reply = new Promise<string>(resolve => ws.onmessage = (event) => resolve(event.data));
+            ws.send(message);
+            return reply;
+        };
+
+        const open = async (port: number, path: string) => {
+            const ws = new WebSocket(`ws://localhost:${port}${path}`);
+            await new Promise(resolve => ws.onopen = resolve);
+            return ws;
+        };
+
+        test("should swap the whole table and leave existing sessions by default", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/legacy/:id", FIRST);
+            const legacy = await open(port, "/legacy/CP001");
+
+            proxy.setRoutes([{ pattern: "/ocpp/:id", target: OTHER }]);
+
+            const fresh = await open(port, "/ocpp/CP002");
+            expect(await echo(fresh, "new")).toBe("Other: new");
+            expect(await echo(legacy, "old")).toBe("Echo: old");
+            expect((await fetch(`http://localhost:${port}/legacy/CP003`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            })).status).toBe(404);
+            legacy.close();
+            fresh.close();
+        });
+
+        test("should drain orphaned sessions after the grace period", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/legacy/:id", FIRST);
+            const kept = await open(port, "/ocpp/CP001");
+            const orphan = await open(port, "/legacy/CP002");
+            let keptClosed = false;
+            kept.onclose = () => keptClosed = true;
+            const orphanClosed = new Promise<[number, string]>(resolve => {
+                orphan.onclose = (event) => resolve([event.code, event.reason]);
+            });
+
+            proxy.setRoutes([{ pattern: "/ocpp/:id", target: FIRST }], { orphans: "drain", graceMs: 100 });
+
+            expect(await orphanClosed).toEqual([1001, "Route removed"]);
+            expect(keptClosed).toBe(false);
+            kept.close();
+        });
+
+        test("should migrate retargeted sessions on their next reconnect", async () => {
+            const { proxy, port } = createProxy();
+            const reconnect = { initialDelayMs: 50, jitter: 0 };
+            proxy.route("/ocpp/:id", FIRST, { reconnect });
+            const ws = await open(port, "/ocpp/CP001");
+
+            proxy.setRoutes([{ pattern: "/ocpp/:id", target: OTHER, reconnect }], { orphans: "migrate" });
+            expect(await echo(ws, "before")).toBe("Echo: before");
+
+            const reconnected = new Promise(resolve => proxy.once("upstream:reconnected", resolve));
+            ws.send("kick");
+            await reconnected;
+
+            expect(await echo(ws, "after")).toBe("Other: after");
+            ws.close();
+        });
+
+        test("should migrate with the params, metadata and handshake of the new route", async () => {
+            const { proxy, port } = createProxy();
+            const reconnect = { initialDelayMs: 50, jitter: 0 };
+            proxy.route("/ocpp/:id", FIRST, { reconnect, metadata: { tenant: "a" } });
+            let metadata: any;
+            proxy.useUpstream((context, next) => {
+                metadata = context.metadata;
+                return next();
+            });
+            const ws = await open(port, "/ocpp/CP001");
+
+            proxy.setRoutes([{
+                pattern: "/ocpp/:charger",
+                target: `ws://localhost:${OTHER_UPSTREAM_PORT}/ocpp/:charger`,
+                reconnect,
+                metadata: { tenant: "b" },
+                upstreamHeaders: { set: { "x-charger": (ctx) => ctx.params.charger } },
+            }], { orphans: "migrate" });
+            const reconnected = new Promise(resolve => proxy.once("upstream:reconnected", resolve));
+            ws.send("kick");
+            await reconnected;
+
+            expect(await echo(ws, "after")).toBe("Other: after");
+            expect(otherRequests.at(-1)!.headers.get("x-charger")).toBe("CP001");
+            expect(metadata).toMatchObject({ tenant: "b", routeParams: { charger: "CP001" } });
+            expect(proxy.findByParam("id", "CP001")).toEqual([]);
+            expect(proxy.findByParam("charger", "CP001")).toHaveLength(1);
+            ws.close();
+        });
+
+        test("should not reconnect the upstream of a session whose route was removed", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/ocpp/:id", FIRST, { reconnect: { initialDelayMs: 20, jitter: 0 } });
+            const ws = await open(port, "/ocpp/CP001");
+            const closed = new Promise<number>(resolve => ws.onclose = (event) => resolve(event.code));
+
+            proxy.setRoutes([], { orphans: "migrate" });
+            ws.send("kick");
+
+            expect(await closed).toBe(1001);
+            await sleep(100);
+            expect(proxy.status()).toMatchObject({ sessions: 0, upstreams: 0 });
+        });
+    });
+
+    describe("session registry", () => {
+        const sessionOf = (proxy: WsProxy) => new Promise<string>(resolve => {
+            proxy.once("client:connected", (data) => resolve(data.sessionId));
+        });
+
+        test("should describe connected sessions", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, { metadata: { tenant: "acme" } });
+            const connected = sessionOf(proxy);
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001?v=1`, ["ocpp1.6"]);
+            await new Promise(resolve => ws.onopen = resolve);
+            const sessionId = await connected;
+            const reply = new Promise(resolve => ws.onmessage = resolve);
+            ws.send("hello");
+            await reply;
+
+            const session = proxy.getSession(sessionId)!;
+            expect(session).toMatchObject({
+                sessionId,
+                url: `http://localhost:${port}/ocpp/CP001?v=1`,
+                route: "/ocpp/:id",
+                target: `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`,
+                upstreamUrl: `ws://localhost:${UPSTREAM_PORT}/ocpp/CP001?v=1`,
+                params: { id: "CP001" },
+                subprotocol: "ocpp1.6",
+                upstream: { bytes: 5, frames: 1 },
+                downstream: { bytes: 11, frames: 1 },
+                metadata: { tenant: "acme" },
+            });
+            expect(typeof session.remoteAddress).toBe("string");
+            expect(session.lastActivityAt).toBeGreaterThanOrEqual(session.connectedAt);
+            expect(proxy.sessions().map(({ sessionId }) => sessionId)).toEqual([sessionId]);
+
+            ws.close();
+            await sleep(50);
+            expect(proxy.getSession(sessionId)).toBeUndefined();
+            expect(proxy.sessions()).toEqual([]);
+        });
+
+        test("should kick a session with a code and reason", async () => {
+            const { proxy, port } = createProxy();
+            const connected = sessionOf(proxy);
+            const ws = await connect(port);
+            const closed = new Promise<[number, string]>(resolve => {
+                ws.onclose = (event) => resolve([event.code, event.reason]);
+            });
+
+            expect(proxy.kick(await connected, 4003, "kicked by operator")).toBe(true);
+            expect(await closed).toEqual([4003, "kicked by operator"]);
+            await sleep(50);
+            expect(upstreamCloses.at(-1)).toEqual([4003, "kicked by operator"]);
+            expect(proxy.kick("unknown")).toBe(false);
+        });
+
+        test("should inject frames in both directions without middleware", async () => {
+            const { proxy, port } = createProxy();
+            let middlewareCalls = 0;
+            proxy.use(async (_ctx, next) => {
+                middlewareCalls++;
+                await next();
+            });
+            const connected = sessionOf(proxy);
+            const ws = await connect(port);
+            const sessionId = await connected;
+
+            const toClient = new Promise(resolve => ws.onmessage = (event) => resolve(event.data));
+            expect(proxy.sendTo(sessionId, "downstream", "from operator")).toBe(true);
+            expect(await toClient).toBe("from operator");
+
+            const echoed = new Promise(resolve => ws.onmessage = (event) => resolve(event.data));
+            expect(proxy.sendTo(sessionId, "upstream", { type: "text", data: "injected" })).toBe(true);
+            expect(await echoed).toBe("Echo: injected");
+            expect(upstreamReceived.at(-1)).toBe("injected");
+            expect(middlewareCalls).toBe(1);
+
+            expect(proxy.sendTo("unknown", "downstream", "lost")).toBe(false);
+            ws.close();
+        });
+    });
+
+    describe("duplicate sessions", () => {
+        const createDuplicateProxy = (action: "reject" | "close-old" | "allow", props: Partial<WebsocketProxyProps> = {}) => {
+            const { proxy, port } = createProxy(undefined, props);
+            const events: [string, any][] = [];
+            proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, { duplicates: { param: "id", action } })
+                .on("duplicate:rejected", (data) => events.push(["rejected", data]))
+                .on("duplicate:replaced", (data) => events.push(["replaced", data]))
+                .on("duplicate:allowed", (data) => events.push(["allowed", data]));
+            return { proxy, port, events };
+        };
+
+        const echo = (ws: WebSocket, message: string) => {
+            const reply = new Promise<string>(resolve => ws.onmessage = (event) => resolve(event.data));
+            ws.send(message);
+            return reply;
+        };
+
+        test("should find sessions by route param", async () => {
+            const { proxy, port } = createProxy();
+            const ws = await connect(port);
+            await sleep(20);
+
+            const found = proxy.findByParam("id", "CP001");
+            expect(found).toHaveLength(1);
+            expect(found[0]!.params).toEqual({ id: "CP001" });
+            expect(proxy.findByParam("id", "CP999")).toEqual([]);
+
+            ws.close();
+            await sleep(50);
+            expect(proxy.findByParam("id", "CP001")).toEqual([]);
+        });
+
+        test("should reject a second connection for the same charger", async () => {
+            const { proxy, port, events } = createDuplicateProxy("reject");
+            const first = await connect(port);
+            await sleep(20);
+            const [existing] = proxy.findByParam("id", "CP001");
+
+            const response = await fetch(`http://localhost:${port}/ocpp/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            });
+            expect(response.status).toBe(409);
+            expect(events).toHaveLength(1);
+            expect(events[0]![0]).toBe("rejected");
+            expect(events[0]![1]).toMatchObject({ param: "id", value: "CP001", existing: [existing!.sessionId] });
+            expect(await echo(first, "still here")).toBe("Echo: still here");
+            first.close();
+        });
+
+        test("should close the old session when the charger reconnects", async () => {
+            const { proxy, port, events } = createDuplicateProxy("close-old");
+            const first = await connect(port);
+            const firstClosed = new Promise<[number, string]>(resolve => {
+                first.onclose = (event) => resolve([event.code, event.reason]);
+            });
+
+            const second = await connect(port);
+            expect(await firstClosed).toEqual([1008, "Replaced by a new connection"]);
+            expect(events.map(([name]) => name)).toEqual(["replaced"]);
+            expect(await echo(second, "replacement")).toBe("Echo: replacement");
+            expect(proxy.findByParam("id", "CP001")).toHaveLength(1);
+            second.close();
+        });
+
+        test("should reject concurrent connections for the same charger", async () => {
+            const { proxy, port, events } = createDuplicateProxy("reject");
+            proxy.resolve(async () => {
+                await sleep(50);
+                return null;
+            });
+
+            const outcomes = await Promise.all([0, 1].map(() => new Promise<string>(resolve => {
+                const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+                ws.onopen = () => {
+                    resolve("open");
+                    ws.close();
+                };
+                ws.onerror = () => resolve("refused");
+            })));
+
+            expect(outcomes.sort()).toEqual(["open", "refused"]);
+            expect(events.map(([name]) => name)).toEqual(["rejected"]);
+        });
+
+        test("should keep the old session when the new connection is refused", async () => {
+            const { proxy, port, events } = createDuplicateProxy("close-old");
+            let calls = 0;
+            proxy.resolve(() => ++calls > 1 ? { reject: { status: 403 } } : null);
+            const first = await connect(port);
+
+            const second = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            await new Promise(resolve => second.onclose = resolve);
+
+            expect(events).toEqual([]);
+            expect(proxy.findByParam("id", "CP001")).toHaveLength(1);
+            expect(await echo(first, "still here")).toBe("Echo: still here");
+            first.close();
+        });
+
+        test("should keep the old session when the new upstream fails in immediate mode", async () => {
+            const { proxy, port, events } = createDuplicateProxy("close-old", { upgradeMode: "immediate" });
+            const first = await connect(port);
+            await sleep(20);
+            proxy.route("/ocpp/:id", "ws://localhost:9299/ocpp/:id", { duplicates: { param: "id", action: "close-old" } });
+
+            const second = await connect(port);
+            const secondClosed = new Promise<number>(resolve => second.onclose = (event) => resolve(event.code));
+
+            expect(await secondClosed).toBe(1014);
+            expect(events).toEqual([]);
+            expect(await echo(first, "still here")).toBe("Echo: still here");
+            first.close();
+        });
+
+        test("should keep both sessions when duplicates are allowed", async () => {
+            const { proxy, port, events } = createDuplicateProxy("allow");
+            const first = await connect(port);
+            const second = await connect(port);
+            await sleep(20);
+
+            expect(events.map(([name]) => name)).toEqual(["allowed"]);
+            expect(proxy.findByParam("id", "CP001")).toHaveLength(2);
+            expect(await echo(first, "one")).toBe("Echo: one");
+            first.close();
+            second.close();
+        });
+    });
+
+    describe("upgrade rejection", () => {
+        const upgrade = (port: number, path: string) => fetch(`http://localhost:${port}${path}`, {
+            headers: {
+                "upgrade": "websocket",
+                "connection": "Upgrade",
+                "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                "sec-websocket-version": "13",
+            },
+        });
+
+        test("should answer 404 when no route matches", async () => {
+            const { proxy, port } = createProxy();
+            const rejections: any[] = [];
+            proxy.on("client:rejected", (data, rejection) => rejections.push({ url: data.url, rejection }));
+
+            const response = await upgrade(port, "/unknown/CP001");
+            expect(response.status).toBe(404);
+            expect(await response.text()).toBe("No route");
+            expect(rejections).toHaveLength(1);
+            expect(rejections[0].url).toContain("/unknown/CP001");
+            expect(rejections[0].rejection.status).toBe(404);
+        });
+
+        test("should answer 502 when the upstream refuses the connection", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/ocpp/:id", "ws://localhost:9299/ocpp/:id");
+
+            const response = await upgrade(port, "/ocpp/CP001");
+            expect(response.status).toBe(502);
+            expect(await response.text()).toBe("Upstream connection failed");
+        });
+
+        test("should answer with the status, headers and body of a resolver rejection", async () => {
+            const { proxy, port } = createProxy();
+            proxy.resolve(() => ({
+                reject: { status: 403, reason: "Forbidden", headers: { "x-reason": "blocked" }, body: "charger blocked" },
+            }));
+
+            const response = await upgrade(port, "/ocpp/CP001");
+            expect(response.status).toBe(403);
+            expect(response.headers.get("x-reason")).toBe("blocked");
+            expect(await response.text()).toBe("charger blocked");
+        });
+
+        test("should answer 500 when the resolver throws", async () => {
+            const { proxy, port } = createProxy();
+            proxy.resolve(() => {
+                throw new Error("database down");
+            });
+
+            const response = await upgrade(port, "/ocpp/CP001");
+            expect(response.status).toBe(500);
+        });
+
+        test("should answer 400 to an incomplete handshake without opening an upstream", async () => {
+            const { proxy, port } = createProxy();
+            let upgrades = 0;
+            proxy.resolve(() => {
+                upgrades++;
+                return null;
+            });
+
+            const response = await fetch(`http://localhost:${port}/ocpp/CP001`, { headers: { upgrade: "websocket" } });
+            expect(response.status).toBe(400);
+            expect(upgrades).toBe(0);
+            expect(proxy.status()).toMatchObject({ sessions: 0, upstreams: 0 });
+        });
+    });
+
+    describe("errors", () => {
+        const upgrade = (port: number, path: string, headers: Record<string, string> = {}) => fetch(`http://localhost:${port}${path}`, {
+            headers: {
+                "upgrade": "websocket",
+                "connection": "Upgrade",
+                "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                "sec-websocket-version": "13",
+                ...headers,
+            },
+        });
+
+        const silent = () => {
+            const logged: unknown[][] = [];
+            const log = (...args: unknown[]) => { logged.push(args); };
+            return { logger: { error: log, warn: log, info: log, debug: log }, logged };
+        };
+
+        test("should emit route:error with NO_ROUTE", async () => {
+            const { proxy, port } = createProxy();
+            const errors: ProxyError[] = [];
+            proxy.on("route:error", (error) => errors.push(error));
+
+            expect((await upgrade(port, "/unknown/CP001")).status).toBe(404);
+            expect(errors).toHaveLength(1);
+            expect(errors[0]).toBeInstanceOf(ProxyError);
+            expect(errors[0]!.code).toBe("NO_ROUTE");
+            expect(errors[0]!.context.url).toContain("/unknown/CP001");
+        });
+
+        test("should emit upstream:error with UPSTREAM_REFUSED and the session context", async () => {
+            const { proxy, port } = createProxy(undefined, silent());
+            proxy.route("/ocpp/:id", "ws://localhost:9299/ocpp/:id");
+            const errors: ProxyError[] = [];
+            proxy.on("upstream:error", (error, data) => {
+                errors.push(error);
+                expect(data.url).toBe("ws://localhost:9299/ocpp/CP001");
+            });
+
+            expect((await upgrade(port, "/ocpp/CP001")).status).toBe(502);
+            expect(errors[0]!.code).toBe("UPSTREAM_REFUSED");
+            expect(errors[0]!.context).toMatchObject({
+                route: "/ocpp/:id",
+                target: "ws://localhost:9299/ocpp/CP001",
+            });
+            expect(errors[0]!.context.sessionId).toBeString();
+        });
+
+        test("should log to the injected logger and emit RESOLVER_FAILED", async () => {
+            const { logger, logged } = silent();
+            const { proxy, port } = createProxy(undefined, { logger });
+            const cause = new Error("database down");
+            proxy.resolve(() => {
+                throw cause;
+            });
+            const errors: ProxyError[] = [];
+            proxy.on("route:error", (error) => errors.push(error));
+
+            expect((await upgrade(port, "/ocpp/CP001")).status).toBe(500);
+            expect(errors[0]!.code).toBe("RESOLVER_FAILED");
+            expect(errors[0]!.cause).toBe(cause);
+            expect(logged).toEqual([["[Proxy] Route resolver failed:", cause]]);
+        });
+
+        test("should emit upgrade:error with AUTH_FAILED", async () => {
+            const { proxy, port } = createProxy(undefined, silent());
+            proxy.authenticate(() => {
+                throw new Error("directory unreachable");
+            });
+            const errors: ProxyError[] = [];
+            proxy.on("upgrade:error", (error) => errors.push(error));
+
+            expect((await upgrade(port, "/ocpp/CP001", { authorization: "Bearer secret" })).status).toBe(500);
+            expect(errors[0]!.code).toBe("AUTH_FAILED");
+            expect(errors[0]!.message).toBe("directory unreachable");
+        });
+
+        test("should emit upstream:error with FORWARD_FAILED when the upstream is gone", async () => {
+            const { proxy, port } = createProxy();
+            const errors: ProxyError[] = [];
+            let sessionId = "";
+            proxy
+                .on("client:connected", (data) => sessionId = data.sessionId)
+                .on("upstream:error", (error) => errors.push(error));
+
+            const ws = await connect(port);
+            (proxy as any).upstreams.get(sessionId).close();
+            expect(proxy.sendTo(sessionId, "upstream", "lost")).toBe(true);
+
+            expect(errors).toHaveLength(1);
+            expect(errors[0]!.code).toBe("FORWARD_FAILED");
+            expect(errors[0]!.context).toMatchObject({ sessionId, direction: "upstream" });
+            ws.close();
+        });
+    });
+
+    describe("authentication", () => {
+        const basic = (username: string, password: string) =>
+            `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+
+        const open = (url: string, headers?: Record<string, string>) => {
+            const ws = new WebSocket(url, { headers } as any);
+            return new Promise<WebSocket | null>((resolve) => {
+                ws.onopen = () => resolve(ws);
+                ws.onclose = () => resolve(null);
+            });
+        };
+
+        test("should validate Basic credentials against the route param", async () => {
+            const { proxy, port } = createProxy();
+            let metadata: any;
+            proxy
+                .authenticate(({ credentials, params }) =>
+                    credentials.scheme === "basic" && credentials.username === params.id && credentials.password === "secret")
+                .useUpstream(async (context, next) => {
+                    metadata = context.metadata;
+                    await next();
+                });
+
+            const ws = await open(`ws://localhost:${port}/ocpp/CP001`, { Authorization: basic("CP001", "secret") });
+            expect(ws).not.toBeNull();
+            const messagePromise = new Promise((resolve) => {
+                ws!.onmessage = (event) => resolve(event.data);
+            });
+            ws!.send("authenticated");
+            expect(await messagePromise).toBe("Echo: authenticated");
+            expect(metadata).toMatchObject({ userId: "CP001", authenticated: true });
+            ws!.close();
+
+            expect(await open(`ws://localhost:${port}/ocpp/CP001`, { Authorization: basic("CP002", "secret") })).toBeNull();
+        });
+
+        test("should answer 401 with WWW-Authenticate", async () => {
+            const { proxy, port } = createProxy();
+            const statuses: number[] = [];
+            proxy
+                .authenticate(() => false, { realm: "ocpp" })
+                .on("client:rejected", (_data, rejection) => statuses.push(rejection.status));
+
+            const response = await fetch(`http://localhost:${port}/ocpp/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            });
+            expect(response.status).toBe(401);
+            expect(response.headers.get("www-authenticate")).toContain('Basic realm="ocpp"');
+            expect(statuses).toEqual([401]);
+        });
+
+        test("should answer 404 before asking an unknown path for credentials", async () => {
+            const { proxy, port } = createProxy();
+            proxy.authenticate(() => true);
+
+            const response = await fetch(`http://localhost:${port}/unknown/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            });
+            expect(response.status).toBe(404);
+        });
+
+        test("should accept query tokens and strip them from the upstream url", async () => {
+            const { proxy, port } = createProxy();
+            proxy.authenticate(({ credentials }) =>
+                credentials.scheme === "query" && credentials.token === "t0k3n" ? { userId: "svc" } : false,
+                { schemes: ["query"] });
+
+            const ws = await open(`ws://localhost:${port}/ocpp/CP001?token=t0k3n&site=north`);
+            expect(ws).not.toBeNull();
+            expect(new URL(upstreamRequests.at(-1)!.url).search).toBe("?site=north");
+            ws!.close();
+        });
+
+        test("should keep query tokens out of event payloads and errors", async () => {
+            const { proxy, port } = createProxy();
+            const urls: string[] = [];
+            proxy
+                .authenticate(({ credentials }) => credentials.scheme === "query" && credentials.token === "t0k3n",
+                    { schemes: ["query"] })
+                .useUpstream(() => {
+                    throw new Error("boom");
+                })
+                .on("client:connected", (data) => urls.push(data.url))
+                .on("client:rejected", (data) => urls.push(data.url))
+                .on("middleware:error", (error) => urls.push(error.context.url!));
+
+            const ws = await open(`ws://localhost:${port}/ocpp/CP001?token=t0k3n&site=north`);
+            ws!.send("explode");
+            await sleep(50);
+            expect(await open(`ws://localhost:${port}/ocpp/CP001?token=wrong`)).toBeNull();
+
+            expect(urls).toHaveLength(3);
+            for (const url of urls) expect(url).not.toContain("token");
+            ws!.close();
+        });
+    });
+
+    describe("resolver", () => {
+        const echo = async (ws: WebSocket, message: string) => {
+            const messagePromise = new Promise<string>((resolve) => {
+                ws.onmessage = (event) => resolve(event.data);
+            });
+            ws.send(message);
+            return messagePromise;
+        };
+
+        test("should resolve targets dynamically with params, headers and metadata", async () => {
+            const { proxy, port } = createProxy();
+            const contexts: any[] = [];
+            let metadata: any;
+
+            proxy
+                .resolve(async (ctx) => {
+                    contexts.push(ctx);
+                    return {
+                        target: `ws://localhost:${UPSTREAM_PORT}/backend/${ctx.params.id}`,
+                        headers: { "X-Charger-Id": ctx.params.id! },
+                        metadata: { tenant: "acme" },
+                    };
+                })
+                .useUpstream(async (context, next) => {
+                    metadata = context.metadata;
+                    await next();
+                });
+
+            const ws = await connect(port);
+            expect(await echo(ws, "dynamic")).toBe("Echo: dynamic");
+
+            expect(contexts[0].params).toEqual({ id: "CP001" });
+            expect(contexts[0].route.pattern).toBe("/ocpp/:id");
+            expect(typeof contexts[0].remoteAddress).toBe("string");
+            expect(new URL(upstreamRequests.at(-1)!.url).pathname).toBe("/backend/CP001");
+            expect(upstreamRequests.at(-1)!.headers.get("x-charger-id")).toBe("CP001");
+            expect(metadata).toMatchObject({ tenant: "acme", routeParams: { id: "CP001" } });
+            ws.close();
+        });
+
+        test("should fall back to static routes when the resolver returns null", async () => {
+            const { proxy, port } = createProxy();
+            proxy.resolve(() => null);
+
+            const ws = await connect(port);
+            expect(await echo(ws, "static")).toBe("Echo: static");
+            expect(new URL(upstreamRequests.at(-1)!.url).pathname).toBe("/ocpp/CP001");
+            ws.close();
+        });
+
+        test("should resolve paths without a static route", async () => {
+            const { proxy, port } = createProxy();
+            proxy.resolve((ctx) => ctx.url.pathname === "/db/CP777"
+                ? { target: `ws://localhost:${UPSTREAM_PORT}/ocpp/CP777` }
+                : null);
+
+            const ws = new WebSocket(`ws://localhost:${port}/db/CP777`);
+            await new Promise(resolve => {
+                ws.onopen = resolve;
+            });
+            expect(await echo(ws, "db")).toBe("Echo: db");
+            ws.close();
+        });
+
+        test("should refuse the upgrade when the resolver rejects", async () => {
+            const { proxy, port } = createProxy();
+            proxy.resolve(() => ({ reject: { status: 403, reason: "Blocked charger" } }));
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            const opened = await new Promise<boolean>((resolve) => {
+                ws.onopen = () => resolve(true);
+                ws.onclose = () => resolve(false);
+            });
+            expect(opened).toBe(false);
+        });
+
+        test("should cache decisions for the configured TTL", async () => {
+            const { proxy, port } = createProxy();
+            let calls = 0;
+            proxy.resolve(() => {
+                calls++;
+                return { target: `ws://localhost:${UPSTREAM_PORT}/ocpp/cached` };
+            }, { cacheTtlMs: 60_000 });
+
+            for (let i = 0; i < 3; i++) {
+                const ws = await connect(port);
+                ws.close();
+            }
+            expect(calls).toBe(1);
+        });
+
+        test("should evict the oldest cached decisions past cacheSize", async () => {
+            const { proxy, port } = createProxy();
+            const resolved: string[] = [];
+            proxy.resolve((ctx) => {
+                resolved.push(ctx.params.id!);
+                return null;
+            }, { cacheTtlMs: 60_000, cacheSize: 2 });
+
+            for (const id of ["CP001", "CP002", "CP003", "CP001"]) {
+                const ws = new WebSocket(`ws://localhost:${port}/ocpp/${id}`);
+                await new Promise(resolve => ws.onopen = resolve);
+                ws.close();
+            }
+
+            expect(resolved).toEqual(["CP001", "CP002", "CP003", "CP001"]);
+            expect([...(proxy as any).decisions.keys()]).toEqual([`localhost:${port}/ocpp/CP003`, `localhost:${port}/ocpp/CP001`]);
+        });
+    });
+
+    test("should keep the client open while the upstream reconnects", async () => {
+        const { proxy, port } = createProxy();
+        proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, {
+            reconnect: { initialDelayMs: 100, jitter: 0 },
+        });
+        const events: string[] = [];
+        proxy
+            .on("upstream:reconnecting", (_data, attempt, delayMs) => events.push(`reconnecting:${attempt}:${delayMs}`))
+            .on("upstream:reconnected", (_data, attempt) => events.push(`reconnected:${attempt}`))
+            .on("upstream:disconnected", () => events.push("disconnected"));
+
+        const ws = await connect(port);
+        let clientClosed = false;
+        ws.onclose = () => clientClosed = true;
+        const received: string[] = [];
+        ws.onmessage = (event) => received.push(event.data);
+
+        ws.send("kick");
+        await sleep(50);
+        ws.send("while reconnecting");
+        await sleep(200);
+
+        expect(events).toEqual(["reconnecting:1:100", "reconnected:1"]);
+        expect(clientClosed).toBe(false);
+        expect(received).toEqual(["Echo: while reconnecting"]);
+        ws.close();
+    });
+
+    test("should close the client instead of reconnecting on an application close code", async () => {
+        const { proxy, port } = createProxy();
+        proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, {
+            reconnect: { initialDelayMs: 10, jitter: 0 },
+        });
+        let reconnects = 0;
+        proxy.on("upstream:reconnecting", () => reconnects++);
+
+        const ws = await connect(port);
+        const closed = new Promise<[number, string]>(resolve => ws.onclose = (event) => resolve([event.code, event.reason]));
+        ws.send("close:4001:unknown charger");
+
+        expect(await closed).toEqual([4001, "unknown charger"]);
+        expect(reconnects).toBe(0);
+    });
+
+    test("should balance sessions across a pool of targets", async () => {
+        const SECOND_UPSTREAM_PORT = 9202;
+        const secondServer = Bun.serve({
+            port: SECOND_UPSTREAM_PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string) {
+                    ws.send(`Second: ${message}`);
+                },
+            },
+        });
+        const { proxy, port } = createProxy();
+        proxy.route("/ocpp/:id", [
+            `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`,
+            `ws://localhost:${SECOND_UPSTREAM_PORT}/ocpp/:id`,
+        ]);
+
+        const replies: string[] = [];
+        for (let i = 0; i < 2; i++) {
+            const ws = await connect(port);
+            const messagePromise = new Promise<string>((resolve) => {
+                ws.onmessage = (event) => resolve(event.data);
+            });
+            ws.send("who");
+            replies.push(await messagePromise);
+            ws.close();
+        }
+
+        expect(replies).toEqual(["Echo: who", "Second: who"]);
+        expect(proxy.health("/ocpp/:id").every(({ healthy }) => healthy)).toBe(true);
+        secondServer.stop(true);
+    });
+
+    describe("upstream headers", () => {
+        const open = (port: number, headers: Record<string, string> = {}) => {
+            const ws = new (WebSocket as any)(`ws://localhost:${port}/ocpp/CP001`, { headers }) as WebSocket;
+            return new Promise<WebSocket>(resolve => ws.onopen = () => resolve(ws));
+        };
+
+        test("should add X-Forwarded headers", async () => {
+            const { port } = createProxy(undefined, { upstreamHeaders: { forwarded: true } });
+
+            const ws = await open(port, { "x-forwarded-for": "10.0.0.1" });
+            const headers = upstreamRequests.at(-1)!.headers;
+            expect(headers.get("x-forwarded-for")).toMatch(/^10\.0\.0\.1, \S+$/);
+            expect(headers.get("x-forwarded-proto")).toBe("http");
+            expect(headers.get("x-forwarded-host")).toBe(`localhost:${port}`);
+            ws.close();
+        });
+
+        test("should copy allowed client headers only", async () => {
+            const { port } = createProxy(undefined, { upstreamHeaders: { copy: ["X-Tenant"] } });
+
+            const ws = await open(port, { "x-tenant": "acme", "x-secret": "hidden" });
+            const headers = upstreamRequests.at(-1)!.headers;
+            expect(headers.get("x-tenant")).toBe("acme");
+            expect(headers.get("x-secret")).toBeNull();
+            expect(headers.get("x-forwarded-for")).toBeNull();
+            ws.close();
+        });
+
+        test("should set static and computed headers per route", async () => {
+            const { proxy, port } = createProxy(undefined, { upstreamHeaders: { set: { "x-proxy": "edge-1" } } });
+            proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, {
+                metadata: { tenant: "acme" },
+                upstreamHeaders: {
+                    set: {
+                        "X-Charger-Id": (ctx) => ctx.params.id,
+                        "x-tenant": async (ctx) => String(ctx.metadata.tenant),
+                        "x-absent": () => undefined,
+                    },
+                },
+            });
+
+            const ws = await open(port);
+            const headers = upstreamRequests.at(-1)!.headers;
+            expect(headers.get("x-proxy")).toBe("edge-1");
+            expect(headers.get("x-charger-id")).toBe("CP001");
+            expect(headers.get("x-tenant")).toBe("acme");
+            expect(headers.has("x-absent")).toBe(false);
+            ws.close();
+        });
+
+        test("should answer 500 when a computed header throws", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, {
+                upstreamHeaders: {
+                    set: { "x-signature": () => { throw new Error("no key"); } },
+                },
+            });
+
+            const response = await fetch(`http://localhost:${port}/ocpp/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+            });
+            expect(response.status).toBe(500);
+            expect(await response.text()).toBe("Upstream header failed");
+        });
+    });
+
+    describe("subprotocol negotiation", () => {
+        const CHOOSY_UPSTREAM_PORT = 9204;
+        let choosyServer: any;
+        const offered: (string | null)[] = [];
+
+        beforeAll(() => {
+            choosyServer = Bun.serve({
+                port: CHOOSY_UPSTREAM_PORT,
+                fetch(req, server) {
+                    const header = req.headers.get("sec-websocket-protocol");
+                    offered.push(header);
+                    const selected = header?.split(", ").includes("ocpp2.0.1") ? "ocpp2.0.1" : undefined;
+                    server.upgrade(req, selected ? { headers: { "sec-websocket-protocol": selected } } : {});
+                },
+                websocket: { message() {} },
+            });
+        });
+
+        afterAll(() => {
+            choosyServer?.stop();
+        });
+
+        const createNegotiatingProxy = (options = {}, props: Partial<WebsocketProxyProps> = {}) => {
+            const { proxy, port } = createProxy(undefined, props);
+            proxy.route("/ocpp/:id", `ws://localhost:${CHOOSY_UPSTREAM_PORT}/ocpp/:id`, options);
+            return { proxy, port };
+        };
+
+        test("should forward the offered list and answer the upstream's choice", async () => {
+            const { proxy, port } = createNegotiatingProxy();
+            const selected: (string | undefined)[] = [];
+            proxy.on("upstream:connected", (data) => selected.push(data.protocol));
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`, ["ocpp1.6", "ocpp2.0.1"]);
+            await new Promise(resolve => ws.onopen = resolve);
+
+            expect(offered.at(-1)).toBe("ocpp1.6, ocpp2.0.1");
+            expect(selected).toEqual(["ocpp2.0.1"]);
+            expect(ws.protocol).toBe("ocpp2.0.1");
+            ws.close();
+        });
+
+        test("should forward only the subprotocols allowed by the route", async () => {
+            const { port } = createNegotiatingProxy({ allowedSubprotocols: ["ocpp1.6", "ocpp2.0.1"] });
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`, ["ocpp2.1", "ocpp1.6"]);
+            await new Promise(resolve => ws.onopen = resolve);
+
+            expect(offered.at(-1)).toBe("ocpp1.6");
+            expect(ws.protocol).toBe("ocpp1.6");
+            ws.close();
+        });
+
+        test("should answer 400 when no offered subprotocol is allowed", async () => {
+            const { port } = createNegotiatingProxy({ allowedSubprotocols: ["ocpp2.0.1"] });
+
+            const response = await fetch(`http://localhost:${port}/ocpp/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                    "sec-websocket-protocol": "ocpp1.6",
+                },
+            });
+            expect(response.status).toBe(400);
+            expect(await response.text()).toBe("Unsupported subprotocol");
+        });
+
+        test("should offer only the first allowed subprotocol in immediate mode", async () => {
+            const { port } = createNegotiatingProxy({}, { upgradeMode: "immediate" });
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`, ["ocpp2.0.1", "ocpp1.6"]);
+            await new Promise(resolve => ws.onopen = resolve);
+            await sleep(50);
+
+            expect(ws.protocol).toBe("ocpp2.0.1");
+            expect(offered.at(-1)).toBe("ocpp2.0.1");
+            ws.close();
+        });
+    });
+
+    describe("immediate upgrade", () => {
+        const SLOW_UPSTREAM_PORT = 9201;
+        let slowServer: any;
+        const slowReceived: string[] = [];
+
+        beforeAll(() => {
+            slowServer = Bun.serve({
+                port: SLOW_UPSTREAM_PORT,
+                async fetch(req, server) {
+                    await sleep(200);
+                    server.upgrade(req);
+                },
+                websocket: {
+                    message(ws: any, message: string) {
+                        slowReceived.push(message);
+                        ws.send(`Echo: ${message}`);
+                    },
+                },
+            });
+        });
+
+        afterAll(() => {
+            slowServer?.stop();
+        });
+
+        test("should release the session when the client gives up waiting for the upstream", async () => {
+            const { proxy, port } = createProxy();
+            proxy.route("/ocpp/:id", `ws://localhost:${SLOW_UPSTREAM_PORT}/ocpp/:id`);
+            const controller = new AbortController();
+
+            const response = fetch(`http://localhost:${port}/ocpp/CP001`, {
+                headers: {
+                    "upgrade": "websocket",
+                    "connection": "Upgrade",
+                    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "sec-websocket-version": "13",
+                },
+                signal: controller.signal,
+            }).catch(() => undefined);
+            await sleep(50);
+            expect(proxy.status()).toMatchObject({ sessions: 1, upstreams: 1 });
+            controller.abort();
+            await response;
+            await sleep(300);
+
+            expect(proxy.status()).toMatchObject({ sessions: 0, upstreams: 0 });
+        });
+
+        const createImmediateProxy = (target: string, props: Partial<WebsocketProxyProps> = {}) => {
+            const { proxy, port } = createProxy(undefined, { upgradeMode: "immediate", ...props });
+            proxy.route("/ocpp/:id", target);
+            return port;
+        };
+
+        test("should upgrade before the upstream opens and flush buffered frames in order", async () => {
+            const port = createImmediateProxy(`ws://localhost:${SLOW_UPSTREAM_PORT}/ocpp/:id`);
+
+            const startedAt = Date.now();
+            const ws = await connect(port);
+            expect(Date.now() - startedAt).toBeLessThan(150);
+
+            const received: string[] = [];
+            ws.onmessage = (event) => received.push(event.data);
+            ws.send("one");
+            ws.send("two");
+            ws.send("three");
+            await sleep(400);
+
+            expect(slowReceived).toEqual(["one", "two", "three"]);
+            expect(received).toEqual(["Echo: one", "Echo: two", "Echo: three"]);
+            ws.close();
+        });
+
+        test("should close the client with 1014 when the upstream fails", async () => {
+            const port = createImmediateProxy("ws://localhost:9299/ocpp/:id");
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            const closeEvent = await new Promise<CloseEvent>((resolve) => {
+                ws.onclose = resolve;
+            });
+
+            expect(closeEvent.code).toBe(1014);
+            expect(closeEvent.reason).toBe("Upstream connection failed");
+        });
+
+        test("should close the client with 1013 when the pre-buffer overflows", async () => {
+            const port = createImmediateProxy(`ws://localhost:${SLOW_UPSTREAM_PORT}/ocpp/:id`, { preBufferBytes: 8 });
+
+            const ws = await connect(port);
+            const closePromise = new Promise<CloseEvent>((resolve) => {
+                ws.onclose = resolve;
+            });
+            ws.send("first");
+            ws.send("second");
+
+            const closeEvent = await closePromise;
+            expect(closeEvent.code).toBe(1013);
+            expect(closeEvent.reason).toBe("Pre-buffer limit exceeded");
+        });
+
+        test("should close the client with 1013 when the pre-buffer overflows during a reconnect", async () => {
+            const { proxy, port } = createProxy(undefined, { preBufferBytes: 8 });
+            proxy.route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`, {
+                reconnect: { initialDelayMs: 200, jitter: 0 },
+            });
+            const reconnecting = new Promise(resolve => proxy.once("upstream:reconnecting", resolve));
+
+            const ws = await connect(port);
+            const closePromise = new Promise<[number, string]>((resolve) => {
+                ws.onclose = (event) => resolve([event.code, event.reason]);
+            });
+            ws.send("kick");
+            await reconnecting;
+            ws.send("first");
+            ws.send("second");
+
+            expect(await closePromise).toEqual([1013, "Pre-buffer limit exceeded"]);
+        });
+    });
+
+    describe("backpressure", () => {
+        // Simulates a congested client socket: Bun returns -1 until `drain` fires
+        const congest = (proxy: WsProxy) => {
+            const server = (proxy as any).server;
+            const sent: string[] = [];
+            let congested = true;
+            const send = server.send.bind(server);
+            server.send = (sessionId: string, message: string) => {
+                if (congested) return -1;
+                sent.push(message);
+                return send(sessionId, message);
+            };
+            return {
+                sent,
+                drain: (sessionId: string) => {
+                    congested = false;
+                    server.emit("drain", { sessionId });
+                },
+            };
+        };
+
+        const connectSession = async (proxy: WsProxy, port: number) => {
+            const sessionPromise = new Promise<string>((resolve) => {
+                proxy.once("client:connected", (data) => resolve(data.sessionId));
+            });
+            const ws = await connect(port);
+            return { ws, sessionId: await sessionPromise };
+        };
+
+        test("should queue frames while congested and flush them in order on drain", async () => {
+            const { proxy, port } = createProxy();
+            const { sent, drain } = congest(proxy);
+            const { ws, sessionId } = await connectSession(proxy, port);
+
+            ws.send("one");
+            ws.send("two");
+            ws.send("three");
+            await sleep(100);
+            expect(sent).toEqual([]);
+
+            drain(sessionId);
+            expect(sent).toEqual(["Echo: two", "Echo: three"]);
+            ws.close();
+        });
+
+        test("should drop the oldest frames with drop-oldest", async () => {
+            const { proxy, port } = createProxy({ maxQueueBytes: 16, overflow: "drop-oldest" });
+            congest(proxy);
+            const dropped: unknown[] = [];
+            proxy.on("backpressure:dropped", (_data, message) => dropped.push(message.data));
+            const { ws } = await connectSession(proxy, port);
+
+            ws.send("aa");
+            ws.send("bb");
+            ws.send("cc");
+            ws.send("dd");
+            await sleep(100);
+
+            expect(dropped).toEqual(["Echo: bb"]);
+            ws.close();
+        });
+
+        test("should close the client with 1013 on overflow", async () => {
+            const { proxy, port } = createProxy({ maxQueueBytes: 8, overflow: "close" });
+            congest(proxy);
+            let closedEvent: unknown;
+            proxy.on("backpressure:closed", (data) => closedEvent = data);
+            const { ws, sessionId } = await connectSession(proxy, port);
+
+            const closePromise = new Promise<number>((resolve) => {
+                ws.onclose = (event) => resolve(event.code);
+            });
+            ws.send("first");
+            ws.send("second");
+
+            expect(await closePromise).toBe(1013);
+            expect(closedEvent).toMatchObject({ sessionId });
+        });
+
+        test("should pause the upstream on overflow and resume after drain", async () => {
+            const { proxy, port } = createProxy({ maxQueueBytes: 8, overflow: "pause" });
+            const { sent, drain } = congest(proxy);
+            const events: string[] = [];
+            proxy
+                .on("backpressure:paused", () => events.push("paused"))
+                .on("backpressure:resumed", () => events.push("resumed"));
+            const { ws, sessionId } = await connectSession(proxy, port);
+
+            ws.send("first");
+            ws.send("second");
+            await sleep(100);
+
+            const upstream = (proxy as any).upstreams.get(sessionId);
+            expect(events).toEqual(["paused"]);
+            expect(upstream.isPaused).toBe(true);
+
+            drain(sessionId);
+            expect(events).toEqual(["paused", "resumed"]);
+            expect(upstream.isPaused).toBe(false);
+            expect(sent).toEqual(["Echo: second"]);
+            ws.close();
+        });
+
+        test("should resume the upstream when the client is gone on drain", async () => {
+            const { proxy, port } = createProxy({ maxQueueBytes: 8, overflow: "pause" });
+            const server = (proxy as any).server;
+            let status = -1;
+            server.send = () => status;
+            const events: string[] = [];
+            proxy
+                .on("backpressure:paused", () => events.push("paused"))
+                .on("backpressure:resumed", () => events.push("resumed"));
+            const { ws, sessionId } = await connectSession(proxy, port);
+
+            ws.send("first");
+            ws.send("second");
+            await sleep(100);
+            expect(events).toEqual(["paused"]);
+
+            status = 0;
+            server.emit("drain", { sessionId });
+            expect(events).toEqual(["paused", "resumed"]);
+            expect((proxy as any).upstreams.get(sessionId).isPaused).toBe(false);
+            ws.close();
+        });
+
+        test("should close a paused session whose upstream keeps sending", async () => {
+            const { proxy, port } = createProxy({ maxQueueBytes: 8, overflow: "pause" });
+            congest(proxy);
+            const { ws } = await connectSession(proxy, port);
+            const closePromise = new Promise<number>((resolve) => {
+                ws.onclose = (event) => resolve(event.code);
+            });
+
+            for (const message of ["first", "second", "third", "fourth"]) ws.send(message);
+
+            expect(await closePromise).toBe(1013);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect } from "bun:test";
+import { RouteConditions, RoutePattern, TargetTemplate } from "../websocket/websocket.router";
+
+describe("RoutePattern", () => {
+    test("should match static segments and params", () => {
+        const pattern = new RoutePattern("/ocpp/:id");
+        expect(pattern.match("/ocpp/CP001")).toEqual({ params: { id: "CP001" }, wildcards: [] });
+        expect(pattern.match("/ocpp")).toBeNull();
+        expect(pattern.match("/ocpp/CP001/extra")).toBeNull();
+        expect(pattern.match("/other/CP001")).toBeNull();
+    });
+
+    test("should match optional params", () => {
+        const pattern = new RoutePattern("/ocpp/:vendor?/:id");
+        expect(pattern.match("/ocpp/abb/CP001")?.params).toEqual({ vendor: "abb", id: "CP001" });
+        expect(pattern.match("/ocpp/CP001")?.params).toEqual({ id: "CP001" });
+
+        const trailing = new RoutePattern("/ocpp/:id?");
+        expect(trailing.match("/ocpp")?.params).toEqual({});
+        expect(trailing.match("/ocpp/CP001")?.params).toEqual({ id: "CP001" });
+    });
+
+    test("should enforce regex constraints", () => {
+        const pattern = new RoutePattern("/ocpp/:id(\\d+)");
+        expect(pattern.match("/ocpp/123")?.params).toEqual({ id: "123" });
+        expect(pattern.match("/ocpp/12a")).toBeNull();
+
+        const optional = new RoutePattern("/ocpp/:id(\\d+)?");
+        expect(optional.match("/ocpp")?.params).toEqual({});
+        expect(optional.match("/ocpp/abc")).toBeNull();
+    });
+
+    test("should capture wildcard and rest segments", () => {
+        expect(new RoutePattern("/ocpp/*/:id").match("/ocpp/abb/CP001")).toEqual({
+            params: { id: "CP001" },
+            wildcards: ["abb"],
+        });
+        expect(new RoutePattern("/ocpp/*").match("/ocpp")).toBeNull();
+
+        const rest = new RoutePattern("/files/**");
+        expect(rest.match("/files/a/b/c")?.rest).toBe("a/b/c");
+        expect(rest.match("/files")?.rest).toBe("");
+
+        const middle = new RoutePattern("/files/**/meta");
+        expect(middle.match("/files/a/b/meta")?.rest).toBe("a/b");
+    });
+
+    test("should reject malformed segments", () => {
+        expect(() => new RoutePattern("/ocpp/:1bad")).toThrow();
+    });
+
+    test("should order patterns by specificity", () => {
+        const patterns = ["/ocpp/**", "/ocpp/:id?", "/ocpp/:id", "/ocpp/*", "/ocpp/:id(\\d+)", "/ocpp/CP001"]
+            .map(pattern => new RoutePattern(pattern));
+        const sorted = [...patterns].sort(RoutePattern.compare).map(pattern => pattern.pattern);
+        expect(sorted).toEqual(["/ocpp/CP001", "/ocpp/:id(\\d+)", "/ocpp/:id", "/ocpp/:id?", "/ocpp/*", "/ocpp/**"]);
+    });
+
+    test("should prefer the exact pattern over optional params and rest", () => {
+        for (const other of ["/ocpp/**", "/ocpp/:id?", "/ocpp/:id(\\d+)?"]) {
+            const sorted = [new RoutePattern(other), new RoutePattern("/ocpp")].sort(RoutePattern.compare);
+            expect(sorted.map(pattern => pattern.pattern)).toEqual(["/ocpp", other]);
+        }
+    });
+});
+
+describe("TargetTemplate", () => {
+    const render = (pattern: string, target: string, input: string) => {
+        const url = new URL(input);
+        const match = new RoutePattern(pattern).match(url.pathname)!;
+        return new TargetTemplate(target).render(match, url.searchParams);
+    };
+
+    test("should substitute params and keep the client query", () => {
+        expect(render("/ocpp/:id", "ws://backend:8081/ocpp/:id", "ws://proxy/ocpp/CP001?a=1"))
+            .toBe("ws://backend:8081/ocpp/CP001?a=1");
+    });
+
+    test("should drop segments of absent optional params", () => {
+        expect(render("/ocpp/:vendor?/:id", "ws://backend/:vendor/:id", "ws://proxy/ocpp/CP001"))
+            .toBe("ws://backend/CP001");
+    });
+
+    test("should substitute wildcards in order and the rest capture", () => {
+        expect(render("/*/*/**", "ws://backend/*/x/*/**", "ws://proxy/a/b/c/d"))
+            .toBe("ws://backend/a/x/b/c/d");
+    });
+
+    test("should substitute query params into the target", () => {
+        expect(render("/ocpp/:id", "ws://backend/:query.site/:id?token=:query.token&v=1", "ws://proxy/ocpp/CP001?site=north&token=abc&x=2"))
+            .toBe("ws://backend/north/CP001?token=abc&v=1&site=north&x=2");
+    });
+});
+
+describe("RouteConditions", () => {
+    test("should match exact and wildcard hosts ignoring the port", () => {
+        const exact = new RouteConditions({ host: "charge.example.com" });
+        expect(exact.matches({ host: "charge.example.com:3000" })).toBe(true);
+        expect(exact.matches({ host: "CHARGE.example.com" })).toBe(true);
+        expect(exact.matches({ host: "other.example.com" })).toBe(false);
+        expect(exact.matches({})).toBe(false);
+
+        const wildcard = new RouteConditions({ host: "*.example.com" });
+        expect(wildcard.matches({ host: "a.example.com" })).toBe(true);
+        expect(wildcard.matches({ host: "example.com" })).toBe(false);
+        expect(wildcard.matches({ host: "a.b.example.com" })).toBe(false);
+
+        const withPort = new RouteConditions({ host: "localhost:3000" });
+        expect(withPort.matches({ host: "localhost:3000" })).toBe(true);
+        expect(withPort.matches({ host: "localhost:3001" })).toBe(false);
+    });
+
+    test("should match headers by value or RegExp", () => {
+        const conditions = new RouteConditions({ headers: { "X-Tenant": "acme", "user-agent": /^Charger\// } });
+        expect(conditions.matches({ "x-tenant": "acme", "user-agent": "Charger/1.0" })).toBe(true);
+        expect(conditions.matches({ "x-tenant": "acme", "user-agent": "curl/8" })).toBe(false);
+        expect(conditions.matches({ "user-agent": "Charger/1.0" })).toBe(false);
+    });
+
+    test("should match any offered subprotocol", () => {
+        const conditions = new RouteConditions({ subprotocols: ["ocpp2.0.1"] });
+        expect(conditions.matches({ "sec-websocket-protocol": "ocpp1.6, ocpp2.0.1" })).toBe(true);
+        expect(conditions.matches({ "sec-websocket-protocol": "ocpp1.6" })).toBe(false);
+        expect(conditions.matches({})).toBe(false);
+    });
+
+    test("should order host-bound routes first, then by path and conditions", () => {
+        const entry = (pattern: string, options = {}) => ({
+            name: pattern + JSON.stringify(options),
+            pattern: new RoutePattern(pattern),
+            conditions: new RouteConditions(options),
+        });
+        const sorted = [
+            entry("/ocpp/:id"),
+            entry("/ocpp/:id", { subprotocols: ["ocpp2.0.1"] }),
+            entry("/**", { host: "*.example.com" }),
+            entry("/ocpp/CP001"),
+            entry("/**", { host: "a.example.com" }),
+        ].sort(RouteConditions.compare).map(({ name }) => name);
+
+        expect(sorted).toEqual([
+            '/**{"host":"a.example.com"}',
+            '/**{"host":"*.example.com"}',
+            "/ocpp/CP001{}",
+            '/ocpp/:id{"subprotocols":["ocpp2.0.1"]}',
+            "/ocpp/:id{}",
+        ]);
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, test, expect } from "bun:test";
 import { WsServer } from "../websocket/websocket.server";
+import { UpgradeRejection } from "../websocket/websocket.errors";
 
 describe("WsServer", () => {
     const BASE_PORT = 9100;
@@ -47,6 +48,95 @@ describe("WsServer", () => {
         expect(capturedData.protocol).toBe("ocpp1.6");
     });
 
+    test("should parse offered protocols and answer the selected one", async () => {
+        const TEST_PORT = nextPort();
+        let capturedData: any = null;
+
+        new WsServer({ hostname: "localhost", port: TEST_PORT }).onUpgrade(async (data) => {
+            capturedData = { ...data };
+            data.protocol = "ocpp2.0.1";
+        });
+
+        const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/CHARGER`, ["ocpp1.6", "ocpp2.0.1"]);
+        await new Promise(resolve => {
+            ws.onopen = resolve;
+        });
+
+        expect(capturedData.protocols).toEqual(["ocpp1.6", "ocpp2.0.1"]);
+        expect(capturedData.protocol).toBe("ocpp1.6");
+        expect(ws.protocol).toBe("ocpp2.0.1");
+        ws.close();
+    });
+
+    test("should capture request headers", async () => {
+        const TEST_PORT = nextPort();
+        let capturedData: any = null;
+
+        const server = new WsServer({ hostname: "localhost", port: TEST_PORT });
+
+        server.once("open", (data) => {
+            capturedData = data;
+        });
+
+        const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/CHARGER`, {
+            headers: { "X-Tenant": "acme" },
+        } as any);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        ws.close();
+
+        expect(capturedData.headers["x-tenant"]).toBe("acme");
+        expect(capturedData.headers["host"]).toBe(`localhost:${TEST_PORT}`);
+    });
+
+    test("should answer upgrade rejections with their HTTP status", async () => {
+        const TEST_PORT = nextPort();
+
+        new WsServer({ hostname: "localhost", port: TEST_PORT }).onUpgrade(async (data) => {
+            if (data.url.endsWith("/denied")) {
+                throw new UpgradeRejection(401, "Unauthorized", { headers: { "www-authenticate": "Basic" } });
+            }
+            throw new Error("unexpected");
+        });
+
+        const upgrade = (path: string) => fetch(`http://localhost:${TEST_PORT}${path}`, {
+            headers: {
+                "upgrade": "websocket",
+                "connection": "Upgrade",
+                "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                "sec-websocket-version": "13",
+            },
+        });
+
+        const denied = await upgrade("/denied");
+        expect(denied.status).toBe(401);
+        expect(denied.headers.get("www-authenticate")).toBe("Basic");
+        expect(await denied.text()).toBe("Unauthorized");
+
+        const failed = await upgrade("/failed");
+        expect(failed.status).toBe(500);
+    });
+
+    test("should stop accepting clients and close the open ones when forced", async () => {
+        const TEST_PORT = nextPort();
+        const server = new WsServer({ hostname: "localhost", port: TEST_PORT });
+
+        const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/CHARGER`);
+        await new Promise(resolve => {
+            ws.onopen = resolve;
+        });
+        expect(server.connections).toBe(1);
+
+        await server.stop();
+        const refused = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/OTHER`);
+        await new Promise(resolve => {
+            refused.onclose = resolve;
+        });
+        expect(ws.readyState).toBe(WebSocket.OPEN);
+
+        await server.stop(true);
+        expect(server.connections).toBe(0);
+    });
+
     test("should emit message event when client sends data", async () => {
         const TEST_PORT = nextPort();
         let receivedMessage: string = "";
@@ -72,6 +162,52 @@ describe("WsServer", () => {
         ws.close();
     });
 
+    test("should emit binary frames as ArrayBuffer", async () => {
+        const TEST_PORT = nextPort();
+        let receivedMessage: unknown;
+
+        const server = new WsServer({ hostname: "localhost", port: TEST_PORT });
+
+        server.once("message", (_data, message) => {
+            receivedMessage = message;
+        });
+
+        const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/CHARGER`);
+        await new Promise(resolve => {
+            ws.onopen = resolve;
+        });
+
+        ws.send(new Uint8Array([9, 8, 7]));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(receivedMessage).toBeInstanceOf(ArrayBuffer);
+        expect(new Uint8Array(receivedMessage as ArrayBuffer)).toEqual(new Uint8Array([9, 8, 7]));
+        ws.close();
+    });
+
+    test("should emit binary frames as Uint8Array when configured", async () => {
+        const TEST_PORT = nextPort();
+        let receivedMessage: unknown;
+
+        const server = new WsServer({ hostname: "localhost", port: TEST_PORT, binaryType: "uint8array" });
+
+        server.once("message", (_data, message) => {
+            receivedMessage = message;
+        });
+
+        const ws = new WebSocket(`ws://localhost:${TEST_PORT}/ocpp/CHARGER`);
+        await new Promise(resolve => {
+            ws.onopen = resolve;
+        });
+
+        ws.send(new Uint8Array([9, 8, 7]));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(receivedMessage).toBeInstanceOf(Uint8Array);
+        expect(receivedMessage).toEqual(new Uint8Array([9, 8, 7]));
+        ws.close();
+    });
+
     test("should send message to specific client", async () => {
         const TEST_PORT = nextPort();
         let sessionId: string | undefined;
@@ -0,0 +1,274 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import tls from "node:tls";
+import { WsServer } from "../websocket/websocket.server";
+import { WsProxy, type MessageMetadata } from "../websocket/websocket.proxy";
+import type { UpstreamTlsOptions } from "../websocket/websocket.tls";
+import type { ProxyError } from "../websocket/websocket.errors";
+
+describe("TLS", () => {
+    const UPSTREAM_PORT = 9400;
+    const BASE_PORT = 9410;
+    let counter = 0;
+    const nextPort = () => BASE_PORT + (++counter);
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    const dir = mkdtempSync(join(tmpdir(), "ws-tls-"));
+    const pem: Record<string, string> = {};
+    let upstreamServer: any;
+
+    const openssl = (...args: string[]) => {
+        const result = Bun.spawnSync(["openssl", ...args], { cwd: dir });
+        if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+    };
+
+    /**
+     * Certificate signed by the test CA
+     */
+    const issue = (name: string, subject: string, san?: string) => {
+        openssl("req", "-newkey", "rsa:2048", "-nodes", "-keyout", `${name}.key`, "-out", `${name}.csr`, "-subj", subject);
+        const extensions = san ? ["-extfile", `${name}.ext`] : [];
+        if (san) writeFileSync(join(dir, `${name}.ext`), `subjectAltName=${san}\n`);
+        openssl("x509", "-req", "-in", `${name}.csr`, "-CA", "ca.crt", "-CAkey", "ca.key", "-CAcreateserial",
+            "-days", "1", "-out", `${name}.crt`, ...extensions);
+        pem[`${name}.crt`] = readFileSync(join(dir, `${name}.crt`), "utf8");
+        pem[`${name}.key`] = readFileSync(join(dir, `${name}.key`), "utf8");
+    };
+
+    beforeAll(() => {
+        openssl("req", "-x509", "-newkey", "rsa:2048", "-nodes", "-keyout", "ca.key", "-out", "ca.crt",
+            "-days", "1", "-subj", "/CN=Test CA");
+        pem["ca.crt"] = readFileSync(join(dir, "ca.crt"), "utf8");
+        issue("server", "/CN=localhost", "DNS:localhost,IP:127.0.0.1");
+        issue("other", "/CN=charge.example.com", "DNS:charge.example.com");
+        issue("client", "/O=Charger/CN=CP001");
+
+        upstreamServer = Bun.serve({
+            port: UPSTREAM_PORT,
+            fetch(req, server) {
+                server.upgrade(req);
+            },
+            websocket: {
+                message(ws: any, message: string | Buffer) {
+                    ws.send(`Echo: ${message}`);
+                },
+            },
+        });
+    });
+
+    afterAll(() => {
+        upstreamServer?.stop();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const connect = (port: number, tlsOptions: Record<string, string>) => {
+        const ws = new (WebSocket as any)(`wss://localhost:${port}/ocpp/CP001`, { tls: tlsOptions }) as WebSocket;
+        return new Promise<WebSocket>((resolve, reject) => {
+            ws.onopen = () => resolve(ws);
+            ws.onclose = (event) => reject(event.code);
+        });
+    };
+
+    const servedName = (port: number, servername: string) => new Promise<string | undefined>((resolve, reject) => {
+        const socket = tls.connect({ host: "127.0.0.1", port, servername, rejectUnauthorized: false }, () => {
+            resolve(socket.getPeerCertificate().subject?.CN);
+            socket.end();
+        });
+        socket.on("error", reject);
+    });
+
+    test("should terminate TLS on WsServer", async () => {
+        const port = nextPort();
+        let openData: any = null;
+        new WsServer({
+            hostname: "localhost",
+            port,
+            tls: { cert: pem["server.crt"]!, key: pem["server.key"]! },
+        }).on("open", (data) => openData = data);
+
+        const ws = await connect(port, { ca: pem["ca.crt"]! });
+        await sleep(50);
+
+        expect(openData.url).toStartWith("https://localhost");
+        expect(openData.clientCertificate).toBeUndefined();
+        ws.close();
+    });
+
+    test("should serve certificates per SNI hostname", async () => {
+        const sni = [{ serverName: "charge.example.com", cert: pem["other.crt"]!, key: pem["other.key"]! }];
+        const native = nextPort();
+        new WsServer({ hostname: "127.0.0.1", port: native, tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, sni } });
+        const terminated = nextPort();
+        new WsServer({
+            hostname: "127.0.0.1",
+            port: terminated,
+            tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, ca: pem["ca.crt"]!, sni, requestCert: true, rejectUnauthorized: false },
+        });
+        await sleep(50);
+
+        for (const port of [native, terminated]) {
+            expect(await servedName(port, "charge.example.com")).toBe("charge.example.com");
+            expect(await servedName(port, "localhost")).toBe("localhost");
+        }
+    });
+
+    test("should expose the verified client certificate to routes and middleware", async () => {
+        const port = nextPort();
+        let resolved: any = null;
+        let metadata: MessageMetadata | null = null;
+        new WsProxy({
+            hostname: "localhost",
+            port,
+            tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, ca: pem["ca.crt"]!, requestCert: true },
+        })
+            .route("/ocpp/:id", `ws://localhost:${UPSTREAM_PORT}/ocpp/:id`)
+            .resolve((ctx) => {
+                resolved = ctx.clientCertificate;
+                return null;
+            })
+            .useUpstream((ctx, next) => {
+                metadata = ctx.metadata;
+                return next();
+            });
+
+        const ws = await connect(port, { ca: pem["ca.crt"]!, cert: pem["client.crt"]!, key: pem["client.key"]! });
+        const reply = new Promise(resolve => ws.onmessage = (event) => resolve(event.data));
+        ws.send("hello");
+
+        expect(await reply).toBe("Echo: hello");
+        expect(resolved.subject).toEqual({ O: "Charger", CN: "CP001" });
+        expect(resolved.authorized).toBe(true);
+        expect(metadata!.clientCertificate?.subject.CN).toBe("CP001");
+        expect(metadata!.clientCertificate?.issuer.CN).toBe("Test CA");
+        ws.close();
+    });
+
+    test("should refuse clients without a trusted certificate", async () => {
+        const port = nextPort();
+        const errors: ProxyError[] = [];
+        new WsServer({
+            hostname: "localhost",
+            port,
+            tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, ca: pem["ca.crt"]!, requestCert: true },
+        }).on("tls:error", (error) => errors.push(error));
+
+        await expect(connect(port, { ca: pem["ca.crt"]! })).rejects.toBe(1006);
+        await sleep(20);
+        expect(errors.length).toBeGreaterThan(0);
+        expect(errors[0]!.code).toBe("CLIENT_TLS");
+    });
+
+    test("should refuse connections that bypass the TLS terminator", async () => {
+        const server = new WsServer({
+            hostname: "localhost",
+            port: nextPort(),
+            tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, ca: pem["ca.crt"]!, requestCert: true },
+        });
+        let upgrades = 0;
+        server.onUpgrade(async () => {
+            upgrades++;
+        });
+
+        const loopback = (server as any).server.port;
+        const response = await fetch(`http://127.0.0.1:${loopback}/ocpp/CP001`, {
+            headers: {
+                "upgrade": "websocket",
+                "connection": "Upgrade",
+                "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                "sec-websocket-version": "13",
+            },
+        });
+
+        expect(response.status).toBe(403);
+        expect(upgrades).toBe(0);
+    });
+
+    describe("upstream", () => {
+        const SECURE_UPSTREAM_PORT = 9401;
+        let secureUpstream: any;
+
+        beforeAll(() => {
+            secureUpstream = Bun.serve({
+                port: SECURE_UPSTREAM_PORT,
+                hostname: "localhost",
+                tls: { cert: pem["server.crt"]!, key: pem["server.key"]!, ca: pem["ca.crt"]!, requestCert: true, rejectUnauthorized: true },
+                fetch(req, server) {
+                    server.upgrade(req);
+                },
+                websocket: {
+                    message(ws: any, message: string | Buffer) {
+                        ws.send(`Secure: ${message}`);
+                    },
+                },
+            });
+        });
+
+        afterAll(() => {
+            secureUpstream?.stop();
+        });
+
+        const upgrade = (port: number) => fetch(`http://localhost:${port}/ocpp/CP001`, {
+            headers: {
+                "upgrade": "websocket",
+                "connection": "Upgrade",
+                "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+                "sec-websocket-version": "13",
+            },
+        });
+
+        const createProxy = (upstreamTls: UpstreamTlsOptions) => {
+            const port = nextPort();
+            const errors: ProxyError[] = [];
+            const proxy = new WsProxy({ hostname: "localhost", port })
+                .route("/ocpp/:id", `wss://localhost:${SECURE_UPSTREAM_PORT}/ocpp/:id`, { upstreamTls })
+                .on("upstream:error", (error) => errors.push(error));
+            return { proxy, port, errors };
+        };
+
+        test("should reach a backend behind a private CA with a client certificate", async () => {
+            const { port } = createProxy({ ca: pem["ca.crt"]!, cert: pem["client.crt"]!, key: pem["client.key"]! });
+
+            const ws = new WebSocket(`ws://localhost:${port}/ocpp/CP001`);
+            await new Promise(resolve => ws.onopen = resolve);
+            const reply = new Promise(resolve => ws.onmessage = (event) => resolve(event.data));
+            ws.send("hello");
+
+            expect(await reply).toBe("Secure: hello");
+            ws.close();
+        });
+
+        test("should skip verification when rejectUnauthorized is false", async () => {
+            const { port } = createProxy({ cert: pem["client.crt"]!, key: pem["client.key"]!, rejectUnauthorized: false });
+
+            const response = await upgrade(port);
+            expect(response.status).toBe(101);
+        });
+
+        test("should report an untrusted backend on upstream:error", async () => {
+            const { port, errors } = createProxy({ cert: pem["client.crt"]!, key: pem["client.key"]! });
+
+            const response = await upgrade(port);
+            expect(response.status).toBe(502);
+            expect(errors).toHaveLength(1);
+            expect(errors[0]!.code).toBe("UPSTREAM_TLS");
+            expect(errors[0]!.message).toContain("TLS handshake failed");
+        });
+
+        test("should report invalid TLS material on upstream:error", async () => {
+            const mismatched = createProxy({ ca: pem["ca.crt"]!, cert: pem["client.crt"]!, key: pem["server.key"]! });
+            expect((await upgrade(mismatched.port)).status).toBe(502);
+            expect(mismatched.errors[0]!.code).toBe("UPSTREAM_TLS");
+            expect(mismatched.errors[0]!.message).toStartWith("Invalid upstream TLS cert/key");
+
+            const badCa = createProxy({ ca: "not a certificate" });
+            expect((await upgrade(badCa.port)).status).toBe(502);
+            expect(badCa.errors[0]!.message).toStartWith("Invalid upstream TLS ca");
+
+            const keyless = createProxy({ cert: pem["client.crt"]! });
+            expect((await upgrade(keyless.port)).status).toBe(502);
+            expect(keyless.errors[0]!.message).toContain("cert and key must be set together");
+        });
+    });
+});
@@ -1,3 +1,12 @@
 export * from "./websocket.client"
 export * from "./websocket.server"
 export * from "./websocket.proxy"
+export * from "./websocket.balancer"
+export * from "./websocket.router"
+export * from "./websocket.errors"
+export * from "./websocket.auth"
+export * from "./websocket.tls"
+export * from "./websocket.keepalive"
+export * from "./websocket.metrics"
+export * from "./websocket.admin"
+export * from "./websocket.ocpp"
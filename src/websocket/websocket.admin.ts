@@ -0,0 +1,193 @@
+import { timingSafeEqual } from "crypto"
+import type { RouteConfig, RouteOptions, WsProxy } from "./websocket.proxy"
+
+/**
+ * - token:             bearer token required on every request
+ * - path:              prefix the router is mounted on (default /admin)
+ * - hostname/port:     serve on a separate listener instead of the proxy's port
+ */
+export type AdminOptions = {
+    token: string,
+    path?: string,
+    hostname?: string,
+    port?: number,
+}
+
+class AdminError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message)
+    }
+}
+
+const json = (body: unknown, status: number = 200, headers: Record<string, string> = {}): Response => {
+    return Response.json(body, { status, headers })
+}
+
+const readJson = async (req: Request): Promise<Record<string, any>> => {
+    const text = await req.text()
+    if (!text) return {}
+    try {
+        const body = JSON.parse(text)
+        if (typeof body === 'object' && body !== null && !Array.isArray(body)) return body
+    } catch {}
+    throw new AdminError(400, 'Body must be a JSON object')
+}
+
+/**
+ * Route as listed by the API. TLS material and header functions are left out.
+ */
+const describeRoute = (proxy: WsProxy, config: RouteConfig) => {
+    const key = config.name ?? config.pattern
+    return {
+        key,
+        name: config.name,
+        pattern: config.pattern,
+        target: config.target,
+        host: config.host,
+        subprotocols: config.subprotocols,
+        allowedSubprotocols: config.allowedSubprotocols,
+        balance: config.balance,
+        health: proxy.health(key),
+    }
+}
+
+/**
+ * Token-protected JSON API for live operations:
+ * - GET    /status                    uptime and counts
+ * - GET    /sessions                  all sessions, or `?param=id&value=CP001`
+ * - GET    /sessions/:id              one session
+ * - DELETE /sessions/:id              kick, body { code?, reason? }
+ * - GET    /sessions/:id/capture      frames recorded so far
+ * - POST   /sessions/:id/capture      body { enabled, limit? }
+ * - GET    /routes                    routes in match order, with pool health
+ * - POST   /routes                    add or replace, body { pattern, target, ...options }
+ * - GET    /routes/:key               one route, key url-encoded
+ * - DELETE /routes/:key              remove
+ */
+export class AdminApi {
+    private server?: Bun.Server<undefined>
+    private readonly token: Buffer
+    readonly path: string
+
+    constructor(private readonly proxy: WsProxy, options: AdminOptions) {
+        this.token = Buffer.from(options.token)
+        this.path = (options.path ?? '/admin').replace(/\/+$/, '')
+    }
+
+    /**
+     * Serve the API on its own port
+     */
+    listen(hostname: string, port: number): this {
+        this.server = Bun.serve({
+            hostname,
+            port,
+            fetch: async (req) => await this.handle(req) ?? json({ error: 'Not found' }, 404),
+        })
+        return this
+    }
+
+    stop(): void {
+        this.server?.stop(true)
+        this.server = undefined
+    }
+
+    /**
+     * Mountable in a `rootFunction`
+     * @returns undefined when the request is outside the router's path
+     */
+    async handle(req: Request): Promise<Response | undefined> {
+        const pathname = new URL(req.url).pathname
+        if (pathname !== this.path && !pathname.startsWith(`${this.path}/`)) return
+
+        if (!this.authorized(req)) {
+            return json({ error: 'Unauthorized' }, 401, { 'www-authenticate': 'Bearer' })
+        }
+
+        try {
+            return await this.dispatch(req, this.segments(pathname)) ?? json({ error: 'Not found' }, 404)
+        } catch (error) {
+            if (error instanceof AdminError) return json({ error: error.message }, error.status)
+            return json({ error: (error as Error).message }, 400)
+        }
+    }
+
+    /**
+     * @throws AdminError 400 on a malformed percent-encoding
+     */
+    private segments(pathname: string): string[] {
+        try {
+            return pathname.slice(this.path.length).split('/').filter(Boolean).map(decodeURIComponent)
+        } catch {
+            throw new AdminError(400, 'Malformed path')
+        }
+    }
+
+    private authorized(req: Request): boolean {
+        const [scheme, token] = (req.headers.get('authorization') ?? '').split(' ')
+        if (scheme?.toLowerCase() !== 'bearer' || !token) return false
+        const presented = Buffer.from(token)
+        return presented.length === this.token.length && timingSafeEqual(presented, this.token)
+    }
+
+    private async dispatch(req: Request, [resource, id, action, ...rest]: string[]): Promise<Response | undefined> {
+        const method = req.method
+        if (rest.length > 0) return
+
+        if (resource === 'status' && !id && method === 'GET') return json(this.proxy.status())
+        if (resource === 'sessions') return this.sessions(req, method, id, action)
+        if (resource === 'routes' && !action) return this.routes(req, method, id)
+    }
+
+    private async sessions(req: Request, method: string, id?: string, action?: string): Promise<Response | undefined> {
+        if (!id) {
+            if (method !== 'GET') return
+            const query = new URL(req.url).searchParams
+            const param = query.get('param')
+            const value = query.get('value')
+            return json(param && value !== null ? this.proxy.findByParam(param, value) : this.proxy.sessions())
+        }
+
+        const session = this.proxy.getSession(id)
+        if (!session) throw new AdminError(404, 'Session not found')
+
+        if (!action && method === 'GET') return json(session)
+        if (!action && method === 'DELETE') {
+            const { code = 1000, reason = '' } = await readJson(req)
+            this.proxy.kick(id, code, reason)
+            return json({ kicked: id })
+        }
+        if (action === 'capture' && method === 'GET') {
+            return json({ capturing: session.capturing, frames: this.proxy.captured(id) ?? [] })
+        }
+        if (action === 'capture' && method === 'POST') {
+            const { enabled, limit } = await readJson(req)
+            if (typeof enabled !== 'boolean') throw new AdminError(400, 'enabled must be a boolean')
+            this.proxy.capture(id, enabled, limit)
+            return json({ capturing: enabled })
+        }
+    }
+
+    private async routes(req: Request, method: string, key?: string): Promise<Response | undefined> {
+        if (!key && method === 'GET') {
+            return json(this.proxy.listRoutes().map(config => describeRoute(this.proxy, config)))
+        }
+        if (!key && method === 'POST') {
+            const { pattern, target, ...options } = await readJson(req)
+            if (typeof pattern !== 'string' || !(typeof target === 'string' || Array.isArray(target))) {
+                throw new AdminError(400, 'pattern and target are required')
+            }
+            this.proxy.route(pattern, target, options as RouteOptions)
+            const config = this.proxy.listRoutes().find(route => (route.name ?? route.pattern) === (options.name ?? pattern))!
+            return json(describeRoute(this.proxy, config), 201)
+        }
+        if (!key) return
+
+        const config = this.proxy.listRoutes().find(route => (route.name ?? route.pattern) === key)
+        if (!config) throw new AdminError(404, 'Route not found')
+        if (method === 'GET') return json(describeRoute(this.proxy, config))
+        if (method === 'DELETE') {
+            this.proxy.unroute(key)
+            return json({ removed: key })
+        }
+    }
+}
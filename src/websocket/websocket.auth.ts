@@ -0,0 +1,92 @@
+import { UpgradeRejection } from "./websocket.errors"
+import type { ClientCertificate } from "./websocket.tls"
+
+export type AuthScheme = 'basic' | 'bearer' | 'query'
+
+export type Credentials =
+    | { scheme: 'basic', username: string, password: string }
+    | { scheme: 'bearer', token: string }
+    | { scheme: 'query', token: string }
+
+export type AuthContext = {
+    sessionId: string,
+    credentials: Credentials,
+    params: Record<string, string>,
+    headers: Record<string, string>,
+    url: URL,
+    remoteAddress?: string,
+    clientCertificate?: ClientCertificate,
+}
+
+/**
+ * `true` or an object accepts the client, `false`/`null` refuses it with 401.
+ * Throw an UpgradeRejection for any other status (ex.: 403).
+ */
+export type AuthResult = boolean | null | {
+    userId?: string,
+    metadata?: Record<string, unknown>,
+}
+
+export type AuthValidator = (ctx: AuthContext) => Promise<AuthResult> | AuthResult
+
+/**
+ * - schemes: accepted credential sources, tried in order (default basic, bearer)
+ * - queryParam: query parameter holding the token for the query scheme (default 'token')
+ * - realm: realm advertised in WWW-Authenticate
+ */
+export type AuthOptions = {
+    schemes?: AuthScheme[],
+    queryParam?: string,
+    realm?: string,
+}
+
+/**
+ * Read the first credentials present in the request
+ * @param headers   request headers with lowercase names
+ * @param url       request url
+ * @returns         { scheme: 'basic', username, password } or undefined
+ */
+export const parseCredentials = (
+    headers: Record<string, string>,
+    url: URL,
+    options: AuthOptions = {}
+): Credentials | undefined => {
+    const authorization = headers['authorization'] ?? ''
+    const [type, value] = authorization.split(/\s+/, 2)
+
+    for (const scheme of options.schemes ?? ['basic', 'bearer']) {
+        if (scheme === 'basic' && type?.toLowerCase() === 'basic' && value) {
+            const decoded = Buffer.from(value, 'base64').toString('utf8')
+            const separator = decoded.indexOf(':')
+            if (separator === -1) continue
+            return {
+                scheme,
+                username: decoded.slice(0, separator),
+                password: decoded.slice(separator + 1),
+            }
+        }
+        if (scheme === 'bearer' && type?.toLowerCase() === 'bearer' && value) {
+            return { scheme, token: value }
+        }
+        if (scheme === 'query') {
+            const token = url.searchParams.get(options.queryParam ?? 'token')
+            if (token) return { scheme, token }
+        }
+    }
+}
+
+/**
+ * 401 carrying a challenge for every header-based scheme
+ */
+export const unauthorized = (options: AuthOptions = {}): UpgradeRejection => {
+    const realm = options.realm ?? 'proxy'
+    const challenges = (options.schemes ?? ['basic', 'bearer'])
+        .filter(scheme => scheme !== 'query')
+        .map(scheme => scheme === 'basic'
+            ? `Basic realm="${realm}", charset="UTF-8"`
+            : `Bearer realm="${realm}"`)
+
+    return new UpgradeRejection(401, 'Unauthorized', {
+        headers: challenges.length > 0 ? { 'www-authenticate': challenges.join(', ') } : {},
+    })
+}
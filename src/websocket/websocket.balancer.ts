@@ -0,0 +1,164 @@
+import { EventEmitter } from "events"
+import type { UpstreamTlsOptions } from "./websocket.tls"
+
+/**
+ * How a target is picked from a route's pool:
+ * - round-robin: rotate over the healthy targets
+ * - least-connections: the healthy target with the fewest open upstreams
+ * - { hash: 'id' }: rendezvous hash of the route param, so a client sticks to one target
+ */
+export type BalanceStrategy = 'round-robin' | 'least-connections' | { hash: string }
+
+/**
+ * Periodic WebSocket probe against `path` (default '/') on each target.
+ * A target goes down after `unhealthyThreshold` failed probes in a row
+ * and comes back after `healthyThreshold` successful ones.
+ */
+export type HealthCheckOptions = {
+    intervalMs?: number,
+    timeoutMs?: number,
+    path?: string,
+    unhealthyThreshold?: number,
+    healthyThreshold?: number,
+}
+
+export type TargetHealth = {
+    target: string,
+    healthy: boolean,
+}
+
+export interface TargetPoolEvents {
+    'target:down': (target: string) => void
+    'target:up': (target: string) => void
+}
+
+export class TargetPool extends EventEmitter {
+    private unhealthy = new Set<string>()
+    private streaks = new Map<string, number>()
+    private cursor = 0
+    private timer: ReturnType<typeof setInterval> | null = null
+
+    constructor(
+        readonly targets: string[],
+        readonly strategy: BalanceStrategy = 'round-robin',
+        readonly healthCheck?: HealthCheckOptions,
+        readonly tls?: UpstreamTlsOptions
+    ) {
+        super()
+    }
+
+    /**
+     * Pick a healthy target
+     * @param params        route params, used by the hash strategy
+     * @param connections   open upstreams per target, used by least-connections
+     * @returns             target template or undefined when every target is down
+     */
+    pick(params: Record<string, string>, connections: (target: string) => number): string | undefined {
+        const healthy = this.targets.filter(target => !this.unhealthy.has(target))
+        if (healthy.length === 0) return
+
+        const strategy = this.strategy
+        if (typeof strategy === 'object' && params[strategy.hash] !== undefined) {
+            const key = params[strategy.hash]!
+            return healthy.reduce((best, target) =>
+                BigInt(Bun.hash(`${target}|${key}`)) > BigInt(Bun.hash(`${best}|${key}`)) ? target : best
+            )
+        }
+
+        if (strategy === 'least-connections') {
+            return healthy.reduce((best, target) =>
+                connections(target) < connections(best) ? target : best
+            )
+        }
+
+        return healthy[this.cursor++ % healthy.length]
+    }
+
+    isHealthy(target: string): boolean {
+        return this.targets.includes(target) && !this.unhealthy.has(target)
+    }
+
+    get health(): TargetHealth[] {
+        return this.targets.map(target => ({ target, healthy: !this.unhealthy.has(target) }))
+    }
+
+    start(): this {
+        if (!this.healthCheck || this.timer) return this
+        this.timer = setInterval(() => this.check(), this.healthCheck.intervalMs ?? 10000)
+        return this
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer)
+        this.timer = null
+    }
+
+    /**
+     * Probe every target once and apply the up/down transitions
+     */
+    async check(): Promise<void> {
+        const results = await Promise.all(this.targets.map(target => this.probe(target)))
+        results.forEach((ok, index) => this.record(this.targets[index]!, ok))
+    }
+
+    private record(target: string, ok: boolean): void {
+        const down = this.unhealthy.has(target)
+        if (ok !== down) {
+            this.streaks.delete(target)
+            return
+        }
+
+        const streak = (this.streaks.get(target) ?? 0) + 1
+        const threshold = down
+            ? this.healthCheck?.healthyThreshold ?? 1
+            : this.healthCheck?.unhealthyThreshold ?? 2
+        if (streak < threshold) {
+            this.streaks.set(target, streak)
+            return
+        }
+
+        this.streaks.delete(target)
+        if (down) {
+            this.unhealthy.delete(target)
+            this.emit('target:up', target)
+        } else {
+            this.unhealthy.add(target)
+            this.emit('target:down', target)
+        }
+    }
+
+    private probe(target: string): Promise<boolean> {
+        return new Promise((resolve) => {
+            let ws: WebSocket
+            try {
+                const url = new URL(this.healthCheck?.path ?? '/', target)
+                ws = this.tls
+                    ? new (WebSocket as unknown as new (url: URL, options: Bun.WebSocketOptions) => WebSocket)(url, { tls: this.tls })
+                    : new WebSocket(url)
+            } catch {
+                resolve(false)
+                return
+            }
+            const timeout = setTimeout(() => {
+                ws.close()
+                resolve(false)
+            }, this.healthCheck?.timeoutMs ?? 5000)
+            ws.onopen = () => {
+                clearTimeout(timeout)
+                ws.close()
+                resolve(true)
+            }
+            ws.onclose = () => {
+                clearTimeout(timeout)
+                resolve(false)
+            }
+        })
+    }
+
+    public override on<K extends keyof TargetPoolEvents>(
+        event: K,
+        listener: TargetPoolEvents[K]
+    ): this {
+        return super.on(event, listener)
+    }
+}
@@ -1,19 +1,84 @@
 import { EventEmitter } from "events"
+import { validateUpstreamTls, type UpstreamTlsOptions } from "./websocket.tls"
+import { ProxyError, type ProxyErrorCode } from "./websocket.errors"
+import { Heartbeat, type KeepaliveOptions } from "./websocket.keepalive"
+
+/**
+ * How binary frames are surfaced: `ArrayBuffer` or `Uint8Array`
+ */
+export type WsBinaryType = 'arraybuffer' | 'uint8array'
+
+export type WsMessageData = string | ArrayBuffer | Uint8Array
+
+/**
+ * Exponential backoff applied after an established connection drops.
+ * The delay of attempt N is `initialDelayMs * factor^(N-1)`, capped at
+ * `maxDelayMs` and reduced by up to `jitter` (0..1) at random.
+ * Only the close `codes` listed reconnect an established connection
+ * (default 1001, 1006, 1011-1014); any other code closes the client.
+ * Failed attempts are retried whatever their code, up to `maxAttempts`.
+ */
+export type ReconnectPolicy = {
+    maxAttempts?: number,
+    initialDelayMs?: number,
+    maxDelayMs?: number,
+    factor?: number,
+    jitter?: number,
+    codes?: number[],
+}
+
+const RECONNECT_CODES = [1001, 1006, 1011, 1012, 1013, 1014]
+
+/**
+ * - maxPendingBytes: messages held while paused before the connection is closed with 1013
+ */
+export type WsClientOptions = {
+    binaryType?: WsBinaryType,
+    maxPendingBytes?: number,
+    reconnect?: ReconnectPolicy,
+    headers?: Record<string, string>,
+    tls?: UpstreamTlsOptions,
+    keepalive?: KeepaliveOptions,
+}
+
+/**
+ * Bun's WebSocket constructor also takes an options object (headers, tls),
+ * which the DOM typings don't know about
+ */
+const BunWebSocket = WebSocket as unknown as new (url: string, options?: Bun.WebSocketOptions) => WebSocket
+
+const byteLength = (data: WsMessageData): number => {
+  return typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength
+}
 
 export interface WsClientEvents {
     'open': () => void
-    'message': (message: string | ArrayBuffer) => void
-    'close': (code: number) => void
+    'message': (message: WsMessageData) => void
+    'close': (code: number, reason: string) => void
+    'reconnecting': (attempt: number, delayMs: number, code: number) => void
+    'reconnected': (attempt: number) => void
+    'error': (error: ProxyError) => void
+    'timeout': (missed: number) => void
 }
 
 export class WsClient extends EventEmitter {
   private ws: WebSocket | null = null;
   private isConnected: boolean = false;
+  private paused: boolean = false;
+  private pending: WsMessageData[] = [];
+  private pendingBytes: number = 0;
+  private hasOpened: boolean = false;
+  private closedByUser: boolean = false;
+  private attempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private selectedProtocol?: string;
+  private heartbeat?: Heartbeat;
 
   constructor(
     readonly sessionId: string,
-    readonly url: string,
-    readonly protocols?: string | string[]
+    private target: string,
+    readonly protocols?: string | string[],
+    readonly options: WsClientOptions = {}
   ) {
     super();
     this.connect();
@@ -21,43 +86,200 @@ export class WsClient extends EventEmitter {
 
   private connect(): void {
     try {
-      this.ws = new WebSocket(this.url, this.protocols)
-      
+      if (this.options.tls) validateUpstreamTls(this.options.tls)
+      this.ws = new BunWebSocket(this.target, {
+        // Reconnects offer only the protocol negotiated on the first connection
+        protocols: this.selectedProtocol
+          ? [this.selectedProtocol]
+          : typeof this.protocols === 'string' ? [this.protocols] : this.protocols,
+        headers: this.options.headers,
+        tls: this.options.tls,
+      })
+      this.ws.binaryType = 'arraybuffer'
+
       this.ws.onopen = () => {
         this.isConnected = true
+        this.startHeartbeat()
+        if (this.attempt > 0) {
+          const attempt = this.attempt
+          this.attempt = 0
+          this.emit("reconnected", attempt)
+          return
+        }
+        this.hasOpened = true
+        this.selectedProtocol = this.ws?.protocol || undefined
         this.emit("open")
       }
 
       this.ws.onerror = (event) => {
+        const message = (event as ErrorEvent).message || `WebSocket connection to '${this.url}' failed`
+        const code = this.isConnected ? 'UPSTREAM_ERROR' : /TLS/.test(message) ? 'UPSTREAM_TLS' : 'UPSTREAM_REFUSED'
         this.isConnected = false
+        this.emitError(new ProxyError(code, message, { sessionId: this.sessionId, target: this.url }))
       };
 
       this.ws.onclose = (event) => {
         this.isConnected = false;
-        this.emit("close", event.code)
+        this.heartbeat?.stop();
+        if (!this.closedByUser && this.scheduleReconnect(event.code)) return
+        this.emit("close", event.code, event.reason)
       };
 
       this.ws.onmessage = (event) => {
-        this.emit("message", event.data)
+        const data: WsMessageData = typeof event.data === 'string' || this.options.binaryType !== 'uint8array'
+          ? event.data
+          : new Uint8Array(event.data)
+        if (this.paused) this.hold(data)
+        else this.emit("message", data)
       }
 
     } catch (error) {
+      // Listeners are not attached yet when the constructor connects
+      const code: ProxyErrorCode = this.options.tls && /TLS/.test((error as Error).message) ? 'UPSTREAM_TLS' : 'UPSTREAM_REFUSED'
+      queueMicrotask(() => {
+        this.emitError(ProxyError.from(error, code, { sessionId: this.sessionId, target: this.url }))
+        // A reconnect attempt that can't even start counts as a failed one
+        if (!this.closedByUser && this.scheduleReconnect(1006)) return
+        this.emit("close", 1006, (error as Error).message)
+      })
     }
   }
 
-  public send(message: string | ArrayBuffer): void {
-    if (this.ws?.readyState === WebSocket.OPEN)
-      this.ws.send(message);
+  /**
+   * A dead upstream never answers a close frame, so it is terminated and
+   * the reconnect policy applies as for any dropped connection
+   */
+  private startHeartbeat(): void {
+    const keepalive = this.options.keepalive
+    const ws = this.ws as (WebSocket & { ping(): void, terminate(): void }) | null
+    if (!keepalive || !ws) return
+    ws.addEventListener('pong', () => this.heartbeat?.pong())
+    this.heartbeat = new Heartbeat(keepalive, () => ws.ping(), (missed) => {
+      this.emit("timeout", missed)
+      ws.terminate()
+    }).start()
+  }
+
+  /**
+   * 'error' is only emitted when listened to, so a failed connection never throws
+   */
+  private emitError(error: ProxyError): void {
+    if (this.listenerCount("error") > 0) this.emit("error", error)
+  }
+
+  private scheduleReconnect(code: number): boolean {
+    const policy = this.options.reconnect
+    if (!policy || !this.hasOpened) return false
+    if (this.attempt === 0 && !(policy.codes ?? RECONNECT_CODES).includes(code)) return false
+    if (this.attempt >= (policy.maxAttempts ?? 10)) return false
+
+    this.attempt++
+    const delay = Math.min(
+      policy.maxDelayMs ?? 30_000,
+      (policy.initialDelayMs ?? 500) * (policy.factor ?? 2) ** (this.attempt - 1)
+    )
+    const delayMs = Math.round(delay * (1 - (policy.jitter ?? 0.5) * Math.random()))
+
+    // Armed first, so a listener calling close() cancels it
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, delayMs)
+    this.emit("reconnecting", this.attempt, delayMs, code)
+    return true
   }
 
-  public close(): void {
+  /**
+   * A paused connection keeps reading, so it is closed once it holds too much
+   */
+  private hold(data: WsMessageData): void {
+    this.pending.push(data)
+    this.pendingBytes += byteLength(data)
+    const max = this.options.maxPendingBytes
+    if (max === undefined || this.pendingBytes <= max) return
+    this.pending = []
+    this.pendingBytes = 0
+    this.close(1013, "Try Again Later")
+  }
+
+  /**
+   * @returns false when the connection isn't open and the message was dropped
+   */
+  public send(message: WsMessageData): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(message);
+    return true;
+  }
+
+  /**
+   * @param code    1000, 1001-1003, 1007-1014 or 3000-4999
+   */
+  public close(code?: number, reason?: string): void {
+    this.closedByUser = true;
+    this.heartbeat?.stop();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.emit("close", code ?? 1000, reason ?? "")
+    }
     if (this.ws) {
-      this.ws.close();
+      this.ws.close(code, reason);
       this.ws = null;
     }
     this.isConnected = false;
   }
 
+  public get url(): string {
+    return this.target;
+  }
+
+  /**
+   * Point the next reconnect at another url, with the handshake options
+   * given replacing the current ones. The open connection is kept.
+   */
+  public retarget(url: string, options: Pick<WsClientOptions, 'headers' | 'tls' | 'reconnect'> = {}): void {
+    this.target = url;
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Subprotocol selected by the server, once connected
+   */
+  public get protocol(): string | undefined {
+    return this.selectedProtocol;
+  }
+
+  /**
+   * Round-trip time of the last pong, with keepalive enabled
+   */
+  public get rtt(): number | undefined {
+    return this.heartbeat?.rtt;
+  }
+
+  public get reconnecting(): boolean {
+    return this.attempt > 0;
+  }
+
+  /**
+   * Hold incoming messages until resume() is called.
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+    while (!this.paused && this.pending.length > 0) {
+      const data = this.pending.shift()!
+      this.pendingBytes -= byteLength(data)
+      this.emit("message", data)
+    }
+  }
+
+  public get isPaused(): boolean {
+    return this.paused;
+  }
+
   public get connected(): boolean {
     return this.isConnected;
   }
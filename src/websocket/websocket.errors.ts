@@ -0,0 +1,109 @@
+export type UpgradeRejectionOptions = {
+    headers?: Record<string, string>,
+    body?: string,
+}
+
+/**
+ * Thrown from an upgrade handler to refuse the WebSocket handshake.
+ * WsServer answers the HTTP request with `status` and `reason`.
+ */
+export class UpgradeRejection extends Error {
+    readonly headers: Record<string, string>
+    readonly body?: string
+
+    constructor(
+        readonly status: number,
+        readonly reason: string,
+        options: UpgradeRejectionOptions = {}
+    ) {
+        super(`${status} ${reason}`)
+        this.name = 'UpgradeRejection'
+        this.headers = options.headers ?? {}
+        this.body = options.body
+    }
+
+    toResponse(): Response {
+        return new Response(this.body ?? this.reason, {
+            status: this.status,
+            statusText: this.reason,
+            headers: { 'content-type': 'text/plain; charset=utf-8', ...this.headers },
+        })
+    }
+}
+
+/**
+ * Stable codes carried by ProxyError:
+ * - UPSTREAM_TIMEOUT:      the upstream didn't open in time
+ * - UPSTREAM_REFUSED:      the upstream connection failed before opening
+ * - UPSTREAM_TLS:          invalid upstream TLS options or a failed TLS handshake
+ * - UPSTREAM_ERROR:        an open upstream connection failed
+ * - CLIENT_TLS:            a client failed the TLS handshake of mutual TLS
+ * - NO_ROUTE:              no route matches the request
+ * - NO_HEALTHY_UPSTREAM:   every target of the route is down
+ * - RESOLVER_FAILED:       the route resolver threw
+ * - AUTH_FAILED:           the authenticator threw
+ * - HEADER_FAILED:         a computed upstream header threw
+ * - UPGRADE_FAILED:        any other error during the upgrade
+ * - FORWARD_FAILED:        a frame couldn't be delivered to the other leg
+ * - MIDDLEWARE_FAILED:     a middleware threw
+ */
+export type ProxyErrorCode =
+    | 'UPSTREAM_TIMEOUT'
+    | 'UPSTREAM_REFUSED'
+    | 'UPSTREAM_TLS'
+    | 'UPSTREAM_ERROR'
+    | 'CLIENT_TLS'
+    | 'NO_ROUTE'
+    | 'NO_HEALTHY_UPSTREAM'
+    | 'RESOLVER_FAILED'
+    | 'AUTH_FAILED'
+    | 'HEADER_FAILED'
+    | 'UPGRADE_FAILED'
+    | 'FORWARD_FAILED'
+    | 'MIDDLEWARE_FAILED'
+
+/**
+ * Session the error happened in, as far as it is known
+ */
+export type ProxyErrorContext = {
+    sessionId?: string,
+    url?: string,
+    route?: string,
+    target?: string,
+    direction?: 'upstream' | 'downstream',
+}
+
+export class ProxyError extends Error {
+    constructor(
+        readonly code: ProxyErrorCode,
+        message: string,
+        readonly context: ProxyErrorContext = {},
+        options: { cause?: unknown } = {}
+    ) {
+        super(message, options)
+        this.name = 'ProxyError'
+    }
+
+    /**
+     * Wrap anything thrown into a ProxyError, keeping it as `cause`
+     */
+    static from(error: unknown, code: ProxyErrorCode, context: ProxyErrorContext = {}): ProxyError {
+        if (error instanceof ProxyError) return error
+        const message = error instanceof Error ? error.message : String(error)
+        return new ProxyError(code, message, context, { cause: error })
+    }
+}
+
+/**
+ * A text frame that isn't a valid OCPP-J message. `uniqueId` is set when the
+ * frame is a CALL whose id could be read, so the sender can be answered with
+ * a CALLERROR.
+ */
+export class FormationViolation extends Error {
+    readonly errorCode = 'FormationViolation'
+
+    constructor(message: string, readonly uniqueId?: string) {
+        super(message)
+        this.name = 'FormationViolation'
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Ping the peer every `intervalMs` (default 30s) and give up on it after
+ * `maxMissed` pings in a row went unanswered (default 2)
+ */
+export type KeepaliveOptions = {
+    intervalMs?: number,
+    maxMissed?: number,
+}
+
+/**
+ * Ping/pong bookkeeping of one connection. The owner sends the pings,
+ * reports pongs and closes the connection on timeout.
+ */
+export class Heartbeat {
+    private timer: ReturnType<typeof setInterval> | null = null
+    private sentAt?: number
+    private missed: number = 0
+    private latency?: number
+
+    constructor(
+        private readonly options: KeepaliveOptions,
+        private readonly ping: () => void,
+        private readonly onTimeout: (missed: number) => void
+    ) {}
+
+    start(): this {
+        this.stop()
+        this.timer = setInterval(() => this.tick(), this.options.intervalMs ?? 30_000)
+        return this
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer)
+        this.timer = null
+        this.sentAt = undefined
+        this.missed = 0
+    }
+
+    pong(): void {
+        if (this.sentAt === undefined) return
+        this.latency = Date.now() - this.sentAt
+        this.sentAt = undefined
+        this.missed = 0
+    }
+
+    /**
+     * Round-trip time of the last answered ping, in milliseconds
+     */
+    get rtt(): number | undefined {
+        return this.latency
+    }
+
+    private tick(): void {
+        if (this.sentAt !== undefined && ++this.missed >= (this.options.maxMissed ?? 2)) {
+            const missed = this.missed
+            this.stop()
+            this.onTimeout(missed)
+            return
+        }
+        this.sentAt = Date.now()
+        this.ping()
+    }
+}
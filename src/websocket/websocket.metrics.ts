@@ -0,0 +1,190 @@
+type Labels = Record<string, string>
+
+const escapeLabel = (value: string): string => {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+const formatLabels = (labels: Labels): string => {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Series of one metric, keyed by their label values in `labelNames` order
+ */
+abstract class Metric<T> {
+    protected readonly series = new Map<string, { labels: Labels, value: T }>()
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly labelNames: string[],
+        private readonly type: 'counter' | 'gauge' | 'histogram'
+    ) {}
+
+    protected entry(labels: Labels, initial: () => T): { labels: Labels, value: T } {
+        const ordered: Labels = {}
+        for (const name of this.labelNames) ordered[name] = labels[name] ?? ''
+        const key = JSON.stringify(Object.values(ordered))
+        let entry = this.series.get(key)
+        if (!entry) {
+            entry = { labels: ordered, value: initial() }
+            this.series.set(key, entry)
+        }
+        return entry
+    }
+
+    reset(): void {
+        this.series.clear()
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+        for (const { labels, value } of this.series.values()) lines.push(...this.samples(labels, value))
+        return lines
+    }
+
+    protected abstract samples(labels: Labels, value: T): string[]
+}
+
+export class Counter extends Metric<number> {
+    constructor(name: string, help: string, labelNames: string[] = []) {
+        super(name, help, labelNames, 'counter')
+    }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        this.entry(labels, () => 0).value += value
+    }
+
+    protected samples(labels: Labels, value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${value}`]
+    }
+}
+
+export class Gauge extends Metric<number> {
+    constructor(name: string, help: string, labelNames: string[] = []) {
+        super(name, help, labelNames, 'gauge')
+    }
+
+    set(labels: Labels, value: number): void {
+        this.entry(labels, () => 0).value = value
+    }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        this.entry(labels, () => 0).value += value
+    }
+
+    dec(labels: Labels = {}, value: number = 1): void {
+        this.entry(labels, () => 0).value -= value
+    }
+
+    protected samples(labels: Labels, value: number): string[] {
+        return [`${this.name}${formatLabels(labels)} ${value}`]
+    }
+}
+
+type HistogramValue = { buckets: number[], sum: number, count: number }
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export class Histogram extends Metric<HistogramValue> {
+    constructor(name: string, help: string, labelNames: string[] = [], readonly buckets: number[] = DEFAULT_BUCKETS) {
+        super(name, help, labelNames, 'histogram')
+    }
+
+    observe(labels: Labels, value: number): void {
+        const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) entry.buckets[index]!++
+        })
+        entry.sum += value
+        entry.count++
+    }
+
+    protected samples(labels: Labels, value: HistogramValue): string[] {
+        return [
+            ...this.buckets.map((bound, index) =>
+                `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`),
+            `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+            `${this.name}_count${formatLabels(labels)} ${value.count}`,
+        ]
+    }
+}
+
+/**
+ * Metrics rendered in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+    private readonly metrics = new Map<string, Metric<unknown>>()
+    private readonly collectors: (() => void)[] = []
+
+    counter(name: string, help: string, labelNames?: string[]): Counter {
+        return this.register(new Counter(name, help, labelNames))
+    }
+
+    gauge(name: string, help: string, labelNames?: string[]): Gauge {
+        return this.register(new Gauge(name, help, labelNames))
+    }
+
+    histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, labelNames, buckets))
+    }
+
+    /**
+     * Run `collect` before every render, to refresh gauges sampled on scrape
+     */
+    onCollect(collect: () => void): this {
+        this.collectors.push(collect)
+        return this
+    }
+
+    render(): string {
+        for (const collect of this.collectors) collect()
+        const lines = Array.from(this.metrics.values()).flatMap(metric => metric.render())
+        return `${lines.join('\n')}\n`
+    }
+
+    private register<T extends Metric<any>>(metric: T): T {
+        if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`)
+        this.metrics.set(metric.name, metric)
+        return metric
+    }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Metrics collected by WsProxy. Every series is labeled by route pattern,
+ * empty for sessions routed by a resolver target or matching no route.
+ */
+export class ProxyMetrics {
+    readonly registry = new MetricsRegistry()
+    readonly sessions = this.registry.gauge('wsproxy_sessions_active', 'Open client sessions', ['route'])
+    readonly upgradesAccepted = this.registry.counter('wsproxy_upgrades_accepted_total', 'Accepted client upgrades', ['route'])
+    readonly upgradesRejected = this.registry.counter('wsproxy_upgrades_rejected_total', 'Rejected client upgrades by HTTP status', ['route', 'status'])
+    readonly frames = this.registry.counter('wsproxy_frames_total', 'Frames received', ['route', 'direction'])
+    readonly bytes = this.registry.counter('wsproxy_bytes_total', 'Bytes received', ['route', 'direction'])
+    readonly connectSeconds = this.registry.histogram('wsproxy_upstream_connect_seconds', 'Time to open the upstream connection', ['route'])
+    readonly upstreamFailures = this.registry.counter('wsproxy_upstream_failures_total', 'Upstream errors by code', ['route', 'code'])
+    readonly reconnects = this.registry.counter('wsproxy_upstream_reconnects_total', 'Upstream reconnect attempts', ['route'])
+    readonly dropped = this.registry.counter('wsproxy_messages_dropped_total', 'Frames dropped by middleware', ['route', 'direction'])
+    readonly middlewareErrors = this.registry.counter('wsproxy_middleware_errors_total', 'Middleware errors', ['route', 'direction'])
+    readonly queueBytes = this.registry.gauge('wsproxy_backpressure_queue_bytes', 'Bytes queued for congested clients', ['route'])
+    private readonly sessionRoutes = new Map<string, string>()
+
+    /**
+     * The route is kept until close, so a migrated session is counted once
+     */
+    opened(sessionId: string, route: string): void {
+        this.sessionRoutes.set(sessionId, route)
+        this.sessions.inc({ route })
+    }
+
+    closed(sessionId: string): void {
+        const route = this.sessionRoutes.get(sessionId)
+        if (route === undefined) return
+        this.sessionRoutes.delete(sessionId)
+        this.sessions.dec({ route })
+    }
+}
@@ -0,0 +1,136 @@
+import { FormationViolation } from "./websocket.errors"
+
+export const OcppMessageType = {
+    CALL: 2,
+    CALLRESULT: 3,
+    CALLERROR: 4,
+} as const
+
+export type OcppMessageType = typeof OcppMessageType[keyof typeof OcppMessageType]
+
+export type OcppPayload = Record<string, unknown>
+
+/**
+ * `[2, uniqueId, action, payload]`
+ */
+export type OcppCall<T extends OcppPayload = OcppPayload> = {
+    messageTypeId: typeof OcppMessageType.CALL,
+    uniqueId: string,
+    action: string,
+    payload: T,
+}
+
+/**
+ * `[3, uniqueId, payload]`. `action` is the one of the CALL it answers,
+ * when that CALL went through the proxy.
+ */
+export type OcppCallResult<T extends OcppPayload = OcppPayload> = {
+    messageTypeId: typeof OcppMessageType.CALLRESULT,
+    uniqueId: string,
+    payload: T,
+    action?: string,
+}
+
+/**
+ * `[4, uniqueId, errorCode, errorDescription, errorDetails]`
+ */
+export type OcppCallError = {
+    messageTypeId: typeof OcppMessageType.CALLERROR,
+    uniqueId: string,
+    errorCode: string,
+    errorDescription: string,
+    errorDetails: OcppPayload,
+    action?: string,
+}
+
+export type OcppMessage = OcppCall | OcppCallResult | OcppCallError
+
+/**
+ * What the proxy does with a text frame that isn't valid OCPP-J:
+ * - reply: drop it and answer a CALL with a FormationViolation CALLERROR (default)
+ * - drop: drop it silently
+ * - forward: forward it unparsed
+ */
+export type OcppOptions = {
+    malformed?: 'reply' | 'drop' | 'forward',
+}
+
+const isObject = (value: unknown): value is OcppPayload => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * @throws FormationViolation when the frame isn't a CALL, CALLRESULT or CALLERROR
+ */
+export const parseOcpp = (text: string): OcppMessage => {
+    let frame: unknown
+    try {
+        frame = JSON.parse(text)
+    } catch {
+        throw new FormationViolation('Frame is not valid JSON')
+    }
+    if (!Array.isArray(frame)) throw new FormationViolation('Frame is not a JSON array')
+
+    const [messageTypeId, uniqueId] = frame
+    if (typeof uniqueId !== 'string' || uniqueId.length === 0 || uniqueId.length > 36) {
+        throw new FormationViolation('Unique id must be a string of 1 to 36 characters')
+    }
+
+    switch (messageTypeId) {
+        case OcppMessageType.CALL: {
+            const [, , action, payload] = frame
+            if (frame.length !== 4) throw new FormationViolation('CALL must have 4 elements', uniqueId)
+            if (typeof action !== 'string' || action.length === 0) throw new FormationViolation('CALL action must be a string', uniqueId)
+            if (!isObject(payload)) throw new FormationViolation('CALL payload must be an object', uniqueId)
+            return { messageTypeId, uniqueId, action, payload }
+        }
+        case OcppMessageType.CALLRESULT: {
+            const [, , payload] = frame
+            if (frame.length !== 3) throw new FormationViolation('CALLRESULT must have 3 elements')
+            if (!isObject(payload)) throw new FormationViolation('CALLRESULT payload must be an object')
+            return { messageTypeId, uniqueId, payload }
+        }
+        case OcppMessageType.CALLERROR: {
+            const [, , errorCode, errorDescription, errorDetails] = frame
+            if (frame.length !== 5) throw new FormationViolation('CALLERROR must have 5 elements')
+            if (typeof errorCode !== 'string' || typeof errorDescription !== 'string') {
+                throw new FormationViolation('CALLERROR code and description must be strings')
+            }
+            if (!isObject(errorDetails)) throw new FormationViolation('CALLERROR details must be an object')
+            return { messageTypeId, uniqueId, errorCode, errorDescription, errorDetails }
+        }
+        default:
+            throw new FormationViolation(`Unknown message type id ${JSON.stringify(messageTypeId)}`)
+    }
+}
+
+/**
+ * OCPP-J frame of a message. The resolved `action` of results and errors isn't sent.
+ */
+export const serializeOcpp = (message: OcppMessage): string => {
+    switch (message.messageTypeId) {
+        case OcppMessageType.CALL:
+            return JSON.stringify([message.messageTypeId, message.uniqueId, message.action, message.payload])
+        case OcppMessageType.CALLRESULT:
+            return JSON.stringify([message.messageTypeId, message.uniqueId, message.payload])
+        case OcppMessageType.CALLERROR:
+            return JSON.stringify([
+                message.messageTypeId, message.uniqueId, message.errorCode, message.errorDescription, message.errorDetails,
+            ])
+    }
+}
+
+/**
+ * CALLERROR answering a CALL that failed to parse
+ * @returns undefined when the frame's unique id couldn't be read
+ */
+export const formationViolationReply = (violation: FormationViolation): OcppCallError | undefined => {
+    if (violation.uniqueId === undefined) return
+    return {
+        messageTypeId: OcppMessageType.CALLERROR,
+        uniqueId: violation.uniqueId,
+        errorCode: violation.errorCode,
+        errorDescription: violation.message,
+        errorDetails: {},
+    }
+}
@@ -1,6 +1,15 @@
 import { EventEmitter } from "events"
 import { WsServer, WsClient, WsServerData } from "."
-import type { WebsocketProxyClientHandler, WebsocketProxyMessageHandler } from "./websocket"
+import type { ReconnectPolicy, WsBinaryType, WsMessageData } from "./websocket.client"
+import { TargetPool, type BalanceStrategy, type HealthCheckOptions, type TargetHealth } from "./websocket.balancer"
+import { RouteConditions, RoutePattern, TargetTemplate, type RouteMatch } from "./websocket.router"
+import { FormationViolation, ProxyError, UpgradeRejection, type ProxyErrorCode, type ProxyErrorContext, type UpgradeRejectionOptions } from "./websocket.errors"
+import { parseCredentials, unauthorized, type AuthOptions, type AuthValidator } from "./websocket.auth"
+import type { ClientCertificate, UpstreamTlsOptions, WsTlsOptions } from "./websocket.tls"
+import type { KeepaliveOptions } from "./websocket.keepalive"
+import { METRICS_CONTENT_TYPE, ProxyMetrics, type MetricsRegistry } from "./websocket.metrics"
+import { AdminApi, type AdminOptions } from "./websocket.admin"
+import { formationViolationReply, OcppMessageType, parseOcpp, serializeOcpp, type OcppCall, type OcppMessage, type OcppOptions } from "./websocket.ocpp"
 
 export const MessageDirection = {
     UPSTREAM: 'upstream',
@@ -16,12 +25,12 @@ export type TextMessage = {
 
 export type BinaryMessage = {
     type: 'binary'
-    data: ArrayBuffer
+    data: ArrayBuffer | Uint8Array
 }
 
 export type Message = TextMessage | BinaryMessage
 
-export const createMessage = (data: string | ArrayBuffer): Message => {
+export const createMessage = (data: WsMessageData): Message => {
     return typeof data === 'string'
         ? { type: 'text', data }
         : { type: 'binary', data }
@@ -35,6 +44,7 @@ export type MessageMetadata = {
     userId?: string
     authenticated?: boolean
     routeParams?: Record<string, string>
+    clientCertificate?: ClientCertificate
     [key: string]: unknown
 }
 
@@ -46,6 +56,8 @@ interface BaseMessageContext<T extends Message = Message> {
     direction: MessageDirection
     message: T
     metadata: MessageMetadata
+    ocpp?: OcppMessage
+    drop(): void
 }
 
 /**
@@ -68,6 +80,47 @@ export type MessageContext<T extends Message = Message> =
     | UpstreamMessageContext<T>
     | DownstreamMessageContext<T>
 
+export const isUpstream = (
+    context: MessageContext
+): context is UpstreamMessageContext => {
+    return context.direction === MessageDirection.UPSTREAM
+}
+
+export const isDownstream = (
+    context: MessageContext
+): context is DownstreamMessageContext => {
+    return context.direction === MessageDirection.DOWNSTREAM
+}
+
+export const isTextMessage = (
+    context: MessageContext
+): context is MessageContext<TextMessage> => {
+    return context.message.type === 'text'
+}
+
+export const isBinaryMessage = (
+    context: MessageContext
+): context is MessageContext<BinaryMessage> => {
+    return context.message.type === 'binary'
+}
+
+/**
+ * Text frame parsed as OCPP-J, with the `ocpp` option enabled
+ */
+export type OcppMessageContext<T extends OcppMessage = OcppMessage> = MessageContext<TextMessage> & { ocpp: T }
+
+export const isOcpp = (
+    context: MessageContext
+): context is OcppMessageContext => {
+    return context.ocpp !== undefined
+}
+
+export const isOcppCall = (
+    context: MessageContext
+): context is OcppMessageContext<OcppCall> => {
+    return context.ocpp?.messageTypeId === OcppMessageType.CALL
+}
+
 export type NextFunction = () => Promise<void>
 
 export type Middleware<TContext extends MessageContext = MessageContext> = (
@@ -75,38 +128,425 @@ export type Middleware<TContext extends MessageContext = MessageContext> = (
     next: NextFunction
 ) => Promise<void> | void
 
+export type UpstreamMiddleware = Middleware<UpstreamMessageContext>
+export type DownstreamMiddleware = Middleware<DownstreamMessageContext>
+export type TextMiddleware = Middleware<MessageContext<TextMessage>>
+export type BinaryMiddleware = Middleware<MessageContext<BinaryMessage>>
+
+/**
+ * `protocol` is the subprotocol selected by the upstream
+ */
+export type UpstreamEventData = {
+    sessionId: string,
+    url: string,
+    protocol?: string,
+}
+
+export type TargetEventData = {
+    pattern: string,
+    target: string,
+}
+
+/**
+ * `sessionId` is the new connection, `existing` the sessions already holding `param=value`
+ */
+export type DuplicateEventData = {
+    param: string,
+    value: string,
+    sessionId: string,
+    existing: string[],
+}
+
 export interface ProxyEvents {
     'client:connected': (data: WsServerData) => void
-    'client:disconnected': (data: WsServerData, code: number) => void
+    'client:disconnected': (data: WsServerData, code: number, reason: string) => void
     'client:message': (context: UpstreamMessageContext) => void
+    'client:rejected': (data: WsServerData, rejection: UpgradeRejection) => void
+    'client:error': (error: ProxyError, data: WsServerData) => void
+    'client:timeout': (data: WsServerData, missed: number) => void
+    'client:tls:error': (error: ProxyError, remoteAddress?: string) => void
 
-    'upstream:connected': (data: { sessionId: string, url: string, protocol?: string | string[] }) => void
-    'upstream:disconnected': (data: { sessionId: string, url: string, protocol?: string | string[] }, code: number) => void
+    'upstream:connected': (data: UpstreamEventData) => void
+    'upstream:disconnected': (data: UpstreamEventData, code: number, reason: string) => void
     'upstream:message': (context: DownstreamMessageContext) => void
+    'upstream:reconnecting': (data: UpstreamEventData, attempt: number, delayMs: number) => void
+    'upstream:reconnected': (data: UpstreamEventData, attempt: number) => void
+    'upstream:error': (error: ProxyError, data: UpstreamEventData) => void
+    'upstream:timeout': (data: UpstreamEventData, missed: number) => void
+
+    'upgrade:error': (error: ProxyError, data: WsServerData) => void
+    'route:error': (error: ProxyError, data: WsServerData) => void
 
     'message': (context: BaseMessageContext) => void
+    'message:dropped': (context: MessageContext) => void
+    'middleware:error': (error: ProxyError, context: MessageContext) => void
+    'ocpp:violation': (error: FormationViolation, context: MessageContext) => void
+
+    'backpressure:dropped': (data: BackpressureEventData, message: Message) => void
+    'backpressure:closed': (data: BackpressureEventData) => void
+    'backpressure:paused': (data: BackpressureEventData) => void
+    'backpressure:resumed': (data: BackpressureEventData) => void
+
+    'target:down': (data: TargetEventData) => void
+    'target:up': (data: TargetEventData) => void
+
+    'duplicate:rejected': (data: DuplicateEventData) => void
+    'duplicate:replaced': (data: DuplicateEventData) => void
+    'duplicate:allowed': (data: DuplicateEventData) => void
 }
 
+/**
+ * What to do when a session's downstream queue exceeds `maxQueueBytes`:
+ * - drop-oldest: discard the oldest queued frames until the new one fits
+ * - close: close the client with 1013 (Try Again Later)
+ * - pause: stop reading from the upstream until the queue is flushed
+ */
+export type BackpressurePolicy = 'drop-oldest' | 'close' | 'pause'
+
+export type BackpressureOptions = {
+    maxQueueBytes?: number,
+    overflow?: BackpressurePolicy,
+}
+
+export type BackpressureEventData = {
+    sessionId: string,
+    queuedBytes: number,
+}
+
+/**
+ * Replacement for close codes that can't be sent on the other leg, by the
+ * leg receiving the close. Merged over the defaults:
+ * - client:   1005 → 1000, 1006 → 1001, 1015 → 1001
+ * - upstream: 1005 → 1000, 1006 → 1014, 1015 → 1014
+ * Any other code outside 1000-1003, 1007-1014 and 3000-4999 becomes 1011.
+ */
+export type CloseCodeMap = {
+    client?: Record<number, number>,
+    upstream?: Record<number, number>,
+}
+
+const DEFAULT_CLOSE_CODES: Required<CloseCodeMap> = {
+    client: { 1005: 1000, 1006: 1001, 1015: 1001 },
+    upstream: { 1005: 1000, 1006: 1014, 1015: 1014 },
+}
+
+const isSendableCloseCode = (code: number): boolean => {
+    return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999)
+}
+
+const opposite = (direction: MessageDirection): MessageDirection => {
+    return direction === MessageDirection.UPSTREAM ? MessageDirection.DOWNSTREAM : MessageDirection.UPSTREAM
+}
+
+/**
+ * Close reasons are limited to 123 bytes of UTF-8
+ */
+const truncateReason = (reason: string): string => {
+    let truncated = reason
+    while (Buffer.byteLength(truncated) > 123) truncated = truncated.slice(0, -1)
+    return truncated
+}
+
+/**
+ * - drainTimeoutMs: time given to clients and in-flight middleware before everything is cut off (default 10 s)
+ * - goingAway: ask clients to leave with 1001 Going Away instead of waiting for them (default true)
+ */
+export type ProxyCloseOptions = {
+    drainTimeoutMs?: number,
+    goingAway?: boolean,
+}
+
+/**
+ * Resolve once `done()` holds or the deadline passes
+ */
+const waitUntil = async (done: () => boolean, deadline: number): Promise<void> => {
+    while (!done() && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, Math.min(25, Math.max(0, deadline - Date.now()))))
+    }
+}
+
+/**
+ * - await-upstream: hold the HTTP upgrade until the upstream connection opens
+ * - immediate: upgrade the client right away and buffer its frames until the upstream opens
+ */
+export type UpgradeMode = 'await-upstream' | 'immediate'
+
+/**
+ * Keepalive of each leg: `client` pings the connected clients, `upstream` the backends
+ */
+export type ProxyKeepaliveOptions = {
+    client?: KeepaliveOptions,
+    upstream?: KeepaliveOptions,
+}
+
+/**
+ * Serve Prometheus metrics on `path` (default /metrics) of the proxy's HTTP listener
+ */
+export type MetricsOptions = {
+    path?: string,
+}
+
+/**
+ * Where the proxy writes its diagnostics, `console` by default
+ */
+export type ProxyLogger = Pick<Console, 'error' | 'warn' | 'info' | 'debug'>
+
 export type WebsocketProxyProps = {
     hostname: string,
     port: number,
     rootFunction?: (req: Request) => Promise<any | undefined>,
+    binaryType?: WsBinaryType,
+    backpressure?: BackpressureOptions,
+    upgradeMode?: UpgradeMode,
+    preBufferBytes?: number,
+    tls?: WsTlsOptions,
+    upstreamHeaders?: UpstreamHeadersOptions,
+    closeCodes?: CloseCodeMap,
+    logger?: ProxyLogger,
+    idleTimeout?: number,
+    keepalive?: ProxyKeepaliveOptions,
+    metrics?: MetricsOptions,
+    admin?: AdminOptions,
+    ocpp?: OcppOptions,
+}
+
+type PreBuffer = {
+    frames: Message[],
+    bytes: number,
+    failure?: { code: number, reason: string },
+}
+
+type DownstreamQueue = {
+    frames: Message[],
+    bytes: number,
+    paused: boolean,
+}
+
+const byteLength = (data: WsMessageData): number => {
+    return typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength
 }
 
 export type RouteConfig = {
     pattern: string,
-    target: string,
+    target: string | string[],
+    name?: string,
+    host?: string,
+    headers?: Record<string, string | RegExp>,
+    subprotocols?: string[],
+    allowedSubprotocols?: string[],
+    duplicates?: DuplicatePolicy,
     metadata?: Record<string, any>,
+    reconnect?: ReconnectPolicy,
+    balance?: BalanceStrategy,
+    healthCheck?: HealthCheckOptions,
+    upstreamTls?: UpstreamTlsOptions,
+    upstreamHeaders?: UpstreamHeadersOptions,
+    ocpp?: OcppOptions | false,
+}
+
+export type RouteOptions = Omit<RouteConfig, 'pattern' | 'target'>
+
+/**
+ * How a route treats a client whose `param` value already has a session:
+ * - reject: refuse the new connection with 409
+ * - close-old: accept the new one and, once its upstream is connected, close the existing sessions with 1008
+ * - allow: keep both
+ */
+export type DuplicatePolicy = {
+    param: string,
+    action: 'reject' | 'close-old' | 'allow',
+}
+
+export type ResolveContext = {
+    sessionId: string,
+    url: URL,
+    headers: Record<string, string>,
+    params: Record<string, string>,
+    remoteAddress?: string,
+    clientCertificate?: ClientCertificate,
+    route?: RouteConfig,
+}
+
+export type UpstreamHeaderContext = ResolveContext & {
+    metadata: MessageMetadata,
+}
+
+export type UpstreamHeaderValue =
+    | string
+    | ((ctx: UpstreamHeaderContext) => Promise<string | undefined> | string | undefined)
+
+/**
+ * Headers of the upstream handshake, applied in this order:
+ * - forwarded: add X-Forwarded-For, X-Forwarded-Proto and X-Forwarded-Host
+ * - copy: client headers copied as-is (ex.: ['user-agent', 'authorization'])
+ * - set: static or computed value per header; `undefined` leaves it out
+ * Route options extend the proxy-wide ones.
+ */
+export type UpstreamHeadersOptions = {
+    forwarded?: boolean,
+    copy?: string[],
+    set?: Record<string, UpstreamHeaderValue>,
+}
+
+/**
+ * Outcome of a resolver:
+ * - target: upstream URL, overriding the static route
+ * - headers: extra upstream handshake headers
+ * - tls: upstream TLS settings, overriding the route's
+ * - metadata: merged into the session metadata
+ * - reject: refuse the upgrade with an HTTP status
+ * Returning `null` falls back to the static routes.
+ */
+export type RouteDecision = {
+    target?: string,
+    headers?: Record<string, string>,
+    tls?: UpstreamTlsOptions,
+    metadata?: MessageMetadata,
+    reject?: { status: number, reason?: string } & UpgradeRejectionOptions,
+}
+
+export type RouteResolver = (ctx: ResolveContext) => Promise<RouteDecision | null> | RouteDecision | null
+
+/**
+ * - cacheTtlMs:    reuse a decision for this long, per cache key
+ * - cacheKey:      defaults to the request host and path
+ * - cacheSize:     cached decisions kept, oldest evicted first (default 10000)
+ */
+export type ResolveOptions = {
+    cacheTtlMs?: number,
+    cacheKey?: (ctx: ResolveContext) => string,
+    cacheSize?: number,
+}
+
+/**
+ * What happens to sessions whose route was removed or retargeted by `setRoutes()`:
+ * - leave: keep them on their current upstream
+ * - drain: close them with 1001 once `graceMs` has passed
+ * - migrate: send them to the new route table on their next upstream reconnect
+ */
+export type OrphanPolicy = 'leave' | 'drain' | 'migrate'
+
+export type SetRoutesOptions = {
+    orphans?: OrphanPolicy,
+    graceMs?: number,
+}
+
+export type SessionTraffic = {
+    bytes: number,
+    frames: number,
+}
+
+/**
+ * Snapshot of a session:
+ * - url: client request url, route: route name or pattern (unset for resolver targets)
+ * - target: target template picked from the route's pool, upstreamUrl: the rendered one
+ * - upstream: frames received from the client, downstream: frames received from the upstream
+ * - rtt: last ping round-trip of each leg in milliseconds, with keepalive enabled
+ * - capturing: frames are being recorded, see `capture()`
+ */
+export type SessionInfo = {
+    sessionId: string,
+    url: string,
+    route?: string,
+    target: string,
+    upstreamUrl: string,
+    params: Record<string, string>,
+    subprotocol?: string,
+    remoteAddress?: string,
+    connectedAt: number,
+    lastActivityAt: number,
+    upstream: SessionTraffic,
+    downstream: SessionTraffic,
+    rtt: { client?: number, upstream?: number },
+    capturing: boolean,
+    metadata: MessageMetadata,
+}
+
+/**
+ * Frame recorded by `capture()` as received, before middleware.
+ * Binary payloads are base64 encoded.
+ */
+export type CapturedFrame = {
+    direction: MessageDirection,
+    type: Message['type'],
+    data: string,
+    bytes: number,
+    at: number,
+}
+
+export type ProxyStatus = {
+    startedAt: number,
+    uptimeMs: number,
+    sessions: number,
+    upstreams: number,
+    routes: number,
+    closing: boolean,
+}
+
+/**
+ * Route and target a session was created from, plus its traffic counters.
+ * `url` is the client url with credentials stripped.
+ */
+type SessionRecord = {
+    data: WsServerData,
+    params: Record<string, string>,
+    route?: string,
+    pattern?: string,
+    target: string,
+    upstreamUrl: string,
+    url: URL,
+    // Metadata of the resolver and the authenticator, kept when the session migrates
+    identity?: MessageMetadata,
+    migrate?: boolean,
+    connectedAt?: number,
+    lastActivityAt: number,
+    traffic: Record<MessageDirection, SessionTraffic>,
+    capture?: { limit: number, frames: CapturedFrame[] },
+}
+
+/**
+ * A route compiled once on `route()` or `setRoutes()`
+ */
+type RouteEntry = {
+    key: string,
+    config: RouteConfig,
+    pattern: RoutePattern,
+    conditions: RouteConditions,
+    targets: Map<string, TargetTemplate>,
+    pool: TargetPool,
 }
 
 export class WsProxy extends EventEmitter {
     private server!: WsServer
-    private routes = new Map<string, string>()
+    private routes = new Map<string, RouteEntry>()
+    private sortedRoutes: RouteEntry[] = []
     private upstreams = new Map<string, WsClient>()
-    private middlewares: WebsocketProxyClientHandler[] = []
+    private registry = new Map<string, SessionRecord>()
+    private paramIndex = new Map<string, Set<string>>()
+    // `param=value` held by a rejecting route's upgrade still in progress
+    private claims = new Map<string, string>()
+    private drainTimers = new Set<ReturnType<typeof setTimeout>>()
+    private metadata = new Map<string, MessageMetadata>()
+    private resolver?: { handler: RouteResolver, options: ResolveOptions }
+    private authenticator?: { validator: AuthValidator, options: AuthOptions }
+    private decisions = new Map<string, { decision: RouteDecision | null, expiresAt: number }>()
+    private middlewares: Middleware[] = []
+    private pipelines = new Map<string, Promise<void>>()
+    private queues = new Map<string, DownstreamQueue>()
+    private preBuffers = new Map<string, PreBuffer>()
+    private closing?: Promise<void>
+    private ocppCalls = new Map<string, Map<string, string>>()
+    private readonly startedAt = Date.now()
+    private readonly logger: ProxyLogger
+    private readonly metrics?: ProxyMetrics
+    private readonly admin?: AdminApi
 
     constructor(private readonly props: WebsocketProxyProps) {
         super()
+        this.logger = props.logger ?? console
+        if (props.metrics) this.metrics = this.setupMetrics()
+        if (props.admin) this.admin = new AdminApi(this, props.admin)
+        if (props.admin?.port) this.admin!.listen(props.admin.hostname ?? props.hostname, props.admin.port)
         this.setupServer()
     }
 
@@ -118,57 +558,141 @@ export class WsProxy extends EventEmitter {
         this.server = new WsServer({
             hostname: this.props.hostname,
             port: this.props.port,
-            idleTimeout: 255,
-            rootFunction: this.props.rootFunction,
+            idleTimeout: this.props.idleTimeout,
+            keepalive: this.props.keepalive?.client,
+            binaryType: this.props.binaryType,
+            rootFunction: this.metrics || (this.admin && !this.props.admin?.port)
+                ? (req) => this.serveHttp(req)
+                : this.props.rootFunction,
+            tls: this.props.tls,
         }).on('open', async (data) => {
+            const session = this.registry.get(data.sessionId)
+            if (session) session.connectedAt = session.lastActivityAt = Date.now()
+            this.metrics?.opened(data.sessionId, this.routeLabel(data.sessionId))
             this.emit('client:connected', data)
-        }).on('close', async (data, code) => {
-            this.emit('client:disconnected', data, code)
-        }).on("message", async (data: WsServerData, message: string | ArrayBuffer) => {
-            const ctx: UpstreamMessageContext = {
-                sessionId: data.sessionId,
-                direction: MessageDirection.UPSTREAM,
-                message: createMessage(message),
-                metadata: {},
-            }
-            this.emit('client:message', ctx)
-            this.emit('message', ctx)
-            this.upstreams.get(data.sessionId)?.send(message)
+            const failure = this.preBuffers.get(data.sessionId)?.failure
+            if (failure) this.server.close(data.sessionId, failure.code, failure.reason)
+        }).on('close', async (data, code, reason) => {
+            this.queues.delete(data.sessionId)
+            this.preBuffers.delete(data.sessionId)
+            this.upstreams.get(data.sessionId)?.close(this.mirrorCloseCode('client', code), truncateReason(reason))
+            this.metadata.delete(data.sessionId)
+            this.unregister(data.sessionId)
+            this.metrics?.closed(data.sessionId)
+            this.ocppCalls.delete(`${data.sessionId}:${MessageDirection.UPSTREAM}`)
+            this.ocppCalls.delete(`${data.sessionId}:${MessageDirection.DOWNSTREAM}`)
+            this.emit('client:disconnected', data, code, reason)
+        }).on('upgrade:aborted', (data) => {
+            // The client never connected, so no close event releases its session
+            this.preBuffers.delete(data.sessionId)
+            this.upstreams.get(data.sessionId)?.close(1001, 'Going Away')
+            this.metadata.delete(data.sessionId)
+            this.unregister(data.sessionId)
+        }).on('timeout', (data, missed) => {
+            this.emit('client:timeout', data, missed)
+        }).on('tls:error', (error, remoteAddress) => {
+            this.logger.warn('[Proxy] Client TLS handshake failed:', remoteAddress, error.message)
+            this.emit('client:tls:error', error, remoteAddress)
+        }).on('drain', (data) => {
+            this.flushDownstream(data.sessionId)
+        }).on("message", async (data: WsServerData, message: WsMessageData) => {
+            await this.processMessage(data.sessionId, MessageDirection.UPSTREAM, message)
         }).onUpgrade(async (ctx) => {
-            if (!await this.onUpgrade(ctx)) throw new Error('Unauthorized')
+            try {
+                await this.onUpgrade(ctx)
+                this.metrics?.upgradesAccepted.inc({ route: this.routeLabel(ctx.sessionId) })
+            } catch (error) {
+                if (!(error instanceof UpgradeRejection)) {
+                    this.logger.error('[Proxy] Upgrade failed:', error)
+                    this.emit('upgrade:error', ProxyError.from(error, 'UPGRADE_FAILED', this.errorContext(ctx)), ctx)
+                }
+                const rejection = error instanceof UpgradeRejection
+                    ? error
+                    : new UpgradeRejection(500, 'Internal Server Error')
+                this.metrics?.upgradesRejected.inc({
+                    route: this.routeLabel(ctx.sessionId) || (this.findRoute(new URL(ctx.url), ctx.headers)?.route.config.pattern ?? ''),
+                    status: String(rejection.status),
+                })
+                this.metadata.delete(ctx.sessionId)
+                this.unregister(ctx.sessionId)
+                this.emit('client:rejected', ctx, rejection)
+                throw rejection
+            } finally {
+                this.releaseClaims(ctx.sessionId)
+            }
         })
     }
 
-    private async createUpstreamConnection({ sessionId, href, protocol, metadata }: {
+    private async createUpstreamConnection({ sessionId, href, protocols, headers, reconnect, tls }: {
         sessionId: string,
         href: string,
-        protocol: string | string[] | undefined,
-        metadata?: MessageMetadata,
+        protocols: string[],
+        headers?: Record<string, string>,
+        reconnect?: ReconnectPolicy,
+        tls?: UpstreamTlsOptions,
     }) {
-        return new Promise((resolve, reject) => {
+        return new Promise<WsClient>((resolve, reject) => {
+            let opened = false
+            const startedAt = performance.now()
             const timeout = setTimeout(() => {
-                reject(new Error('Connection timeout'))
+                this.upstreamError(new ProxyError('UPSTREAM_TIMEOUT', 'Upstream connection timeout', {
+                    ...this.errorContext(sessionId),
+                    target: href,
+                }), { sessionId, url: href })
+                reject(new UpgradeRejection(504, 'Upstream connection timeout'))
+                upstream.close()
             }, 10000)
-            const upstream = new WsClient(sessionId, href, protocol)
+            const upstream = new WsClient(sessionId, href, protocols, {
+                binaryType: this.props.binaryType,
+                maxPendingBytes: this.props.backpressure?.maxQueueBytes ?? 1024 * 1024,
+                reconnect,
+                headers,
+                tls,
+                keepalive: this.props.keepalive?.upstream,
+            })
                 .on('open', () => {
+                    opened = true
                     clearTimeout(timeout)
-                    this.emit('upstream:connected', { sessionId, url: href, protocol })
+                    this.metrics?.connectSeconds.observe({ route: this.routeLabel(sessionId) }, (performance.now() - startedAt) / 1000)
+                    this.emit('upstream:connected', { sessionId, url: href, protocol: upstream.protocol })
                     resolve(upstream)
                 })
-                .on('close', (code) => {
+                .on('close', (code, reason) => {
+                    clearTimeout(timeout)
                     this.upstreams.delete(sessionId)
-                    this.server.close(sessionId)
-                    this.emit('upstream:disconnected', { sessionId, url: href, protocol }, code)
+                    if (!opened) {
+                        reject(new UpgradeRejection(502, 'Upstream connection failed'))
+                        return
+                    }
+                    this.server.close(sessionId, this.mirrorCloseCode('upstream', code), truncateReason(reason))
+                    this.emit('upstream:disconnected', { sessionId, url: href, protocol: upstream.protocol }, code, reason)
                 })
                 .on('message', async (event) => {
-                    const ctx: DownstreamMessageContext = {
-                        sessionId,
-                        direction: MessageDirection.DOWNSTREAM,
-                        message: createMessage(event),
-                        metadata: {},
+                    await this.processMessage(sessionId, MessageDirection.DOWNSTREAM, event)
+                })
+                .on('reconnecting', (attempt, delayMs) => {
+                    this.metrics?.reconnects.inc({ route: this.routeLabel(sessionId) })
+                    if (this.registry.get(sessionId)?.migrate) this.migrate(sessionId, upstream)
+                    // Migration closes sessions left without a route
+                    if (!this.registry.has(sessionId)) return
+                    if (!this.preBuffers.has(sessionId)) {
+                        this.preBuffers.set(sessionId, { frames: [], bytes: 0 })
                     }
-                    this.emit('upstream:message', ctx)
-                    this.emit('message', ctx)
+                    this.emit('upstream:reconnecting', { sessionId, url: href, protocol: upstream.protocol }, attempt, delayMs)
+                })
+                .on('reconnected', (attempt) => {
+                    this.flushPreBuffer(sessionId, upstream)
+                    this.emit('upstream:reconnected', { sessionId, url: href, protocol: upstream.protocol }, attempt)
+                })
+                .on('timeout', (missed) => {
+                    this.emit('upstream:timeout', { sessionId, url: upstream.url, protocol: upstream.protocol }, missed)
+                })
+                .on('error', (error) => {
+                    const failure = new ProxyError(error.code, error.message, {
+                        ...this.errorContext(sessionId),
+                        ...error.context,
+                    }, { cause: error.cause })
+                    this.upstreamError(failure, { sessionId, url: upstream.url, protocol: upstream.protocol })
                 })
 
             this.upstreams.set(sessionId, upstream)
@@ -176,111 +700,1155 @@ export class WsProxy extends EventEmitter {
     }
 
     /**
-     * @param route ex.: /ws/:id
-     * @param input ex.: wss://habbora.com.br/ws/123
-     * @param target ex.: wss://target.com.br/ws/:id
-     * @returns { match: boolean, output?: string }
+     * Session context attached to a ProxyError
+     */
+    private errorContext(session: string | WsServerData, direction?: MessageDirection): ProxyErrorContext {
+        const sessionId = typeof session === 'string' ? session : session.sessionId
+        const record = this.registry.get(sessionId)
+        return {
+            sessionId,
+            url: record?.data.url ?? (typeof session === 'string' ? undefined : session.url),
+            route: record?.route,
+            target: record?.upstreamUrl,
+            direction,
+        }
+    }
+
+    /**
+     * Route pattern of a session for metric labels, empty for resolver targets
+     */
+    private routeLabel(sessionId: string): string {
+        return this.registry.get(sessionId)?.pattern ?? ''
+    }
+
+    /**
+     * Emit `route:error` and reject the upgrade
+     */
+    private routeError(data: WsServerData, code: ProxyErrorCode, rejection: UpgradeRejection, cause?: unknown): never {
+        const error = new ProxyError(code, rejection.reason, this.errorContext(data), { cause })
+        this.emit('route:error', error, data)
+        throw rejection
+    }
+
+    /**
+     *  Métricas e Admin
+     */
+
+    /**
+     * The backpressure gauge is sampled from the queues on every scrape
+     */
+    private setupMetrics(): ProxyMetrics {
+        const metrics = new ProxyMetrics()
+        metrics.registry.onCollect(() => {
+            metrics.queueBytes.reset()
+            for (const [sessionId, queue] of this.queues) {
+                metrics.queueBytes.inc({ route: this.routeLabel(sessionId) }, queue.bytes)
+            }
+        })
+        return metrics
+    }
+
+    /**
+     * Metrics and the admin API mounted in front of `rootFunction`
      */
-    private static matchRouter = ({ route, input, target }: {
-        route: string,
-        input: string,
-        target: string,
-    }): { match: boolean, output?: string } => {
+    private async serveHttp(req: Request): Promise<any> {
+        if (this.metrics && new URL(req.url).pathname === (this.props.metrics?.path ?? '/metrics')) {
+            return new Response(this.metrics.registry.render(), { headers: { 'content-type': METRICS_CONTENT_TYPE } })
+        }
+        if (this.admin && !this.props.admin?.port) {
+            const response = await this.admin.handle(req)
+            if (response) return response
+        }
+        if (this.props.rootFunction) return this.props.rootFunction(req)
+        return new Response('Not Found', { status: 404 })
+    }
+
+    /**
+     * Close code to send on the other leg
+     * @param from  leg that received the close
+     */
+    private mirrorCloseCode(from: keyof CloseCodeMap, code: number): number {
+        const mapped = this.props.closeCodes?.[from]?.[code] ?? DEFAULT_CLOSE_CODES[from][code] ?? code
+        return isSendableCloseCode(mapped) ? mapped : 1011
+    }
+
+    /**
+     *  Pipeline de Middlewares
+     */
+
+    /**
+     * Run the middleware chain for a frame and forward it unless dropped.
+     * Frames of the same session and direction are processed in arrival order.
+     */
+    private processMessage(
+        sessionId: string,
+        direction: MessageDirection,
+        rawMessage: WsMessageData
+    ): Promise<void> {
+        const session = this.registry.get(sessionId)
+        if (session) {
+            session.traffic[direction].frames++
+            session.traffic[direction].bytes += byteLength(rawMessage)
+            session.lastActivityAt = Date.now()
+            this.metrics?.frames.inc({ route: session.pattern ?? '', direction })
+            this.metrics?.bytes.inc({ route: session.pattern ?? '', direction }, byteLength(rawMessage))
+            if (session.capture) this.captureFrame(session.capture, direction, rawMessage)
+        }
+
+        const key = `${sessionId}:${direction}`
+        const previous = this.pipelines.get(key) ?? Promise.resolve()
+        // A failed frame must not hold back the ones queued behind it
+        const current = previous
+            .catch(() => {})
+            .then(() => this.runPipeline(sessionId, direction, rawMessage))
+            .catch((error) => this.logger.error('[Proxy] Pipeline error:', error))
+        this.pipelines.set(key, current)
+        current.finally(() => {
+            if (this.pipelines.get(key) === current) this.pipelines.delete(key)
+        })
+        return current
+    }
+
+    private captureFrame(capture: NonNullable<SessionRecord['capture']>, direction: MessageDirection, rawMessage: WsMessageData): void {
+        const message = createMessage(rawMessage)
+        capture.frames.push({
+            direction,
+            type: message.type,
+            data: message.type === 'text' ? message.data : Buffer.from(new Uint8Array(message.data)).toString('base64'),
+            bytes: byteLength(rawMessage),
+            at: Date.now(),
+        })
+        if (capture.frames.length > capture.limit) capture.frames.shift()
+    }
+
+    private async runPipeline(
+        sessionId: string,
+        direction: MessageDirection,
+        rawMessage: WsMessageData
+    ): Promise<void> {
+        let dropped = false
+        const context = {
+            sessionId,
+            direction,
+            message: createMessage(rawMessage),
+            metadata: this.metadata.get(sessionId) ?? {},
+            drop: () => { dropped = true },
+        } as MessageContext
+
+        // Middleware and event listeners alike are reported as middleware errors
         try {
-            const routeUrl = new URL(route, 'http://localhost')
-            const inputUrl = new URL(input)
-            const targetUrl = new URL(target)
+            const ocpp = this.ocppOptions(sessionId)
+            let canonical: string | undefined
+            if (ocpp && isTextMessage(context)) {
+                try {
+                    context.ocpp = this.readOcpp(sessionId, direction, context.message.data)
+                    canonical = serializeOcpp(context.ocpp)
+                } catch (error) {
+                    if (!(error instanceof FormationViolation)) throw error
+                    this.emit('ocpp:violation', error, context)
+                    const malformed = ocpp.malformed ?? 'reply'
+                    const reply = malformed === 'reply' ? formationViolationReply(error) : undefined
+                    if (reply) this.forwardMessage(sessionId, opposite(direction), { type: 'text', data: serializeOcpp(reply) })
+                    if (malformed !== 'forward') return
+                }
+            }
+
+            if (isUpstream(context)) this.emit('client:message', context)
+            else this.emit('upstream:message', context)
+            this.emit('message', context)
+
+            const middlewares = [...this.middlewares]
+            let index = 0
+            const next = async (): Promise<void> => {
+                if (dropped) return
+                const middleware = middlewares[index++]
+                if (!middleware) return
+                await middleware(context, next)
+            }
+
+            await next()
 
-            const routeParts = routeUrl.pathname.split('/').filter(Boolean)
-            const pathParts = inputUrl.pathname.split('/').filter(Boolean)
-            const targetParts = targetUrl.pathname.split('/').filter(Boolean)
+            if (dropped) {
+                this.metrics?.dropped.inc({ route: this.routeLabel(sessionId), direction })
+                this.emit('message:dropped', context)
+                return
+            }
 
-            if (pathParts.length !== routeParts.length) {
-                return { match: false }
+            // Middleware may edit the parsed message instead of the raw text
+            if (context.ocpp && context.message.data === rawMessage) {
+                const serialized = serializeOcpp(context.ocpp)
+                if (serialized !== canonical) context.message = { type: 'text', data: serialized }
             }
 
-            const isMatch = routeParts.every((part, index) => part === pathParts[index] || part.startsWith(':'))
-            if (!isMatch) return { match: false }
+            this.forwardMessage(sessionId, direction, context.message)
+        } catch (error) {
+            this.metrics?.middlewareErrors.inc({ route: this.routeLabel(sessionId), direction })
+            this.logger.error('[Proxy] Middleware error:', error)
+            this.emit('middleware:error', ProxyError.from(error, 'MIDDLEWARE_FAILED', this.errorContext(sessionId, direction)), context)
+        }
+    }
+
+    /**
+     *  OCPP-J
+     */
+
+    /**
+     * Route setting wins over the proxy's, `false` turns parsing off for the route
+     */
+    private ocppOptions(sessionId: string): OcppOptions | undefined {
+        const route = this.registry.get(sessionId)?.route
+        const options = (route ? this.routes.get(route)?.config.ocpp : undefined) ?? this.props.ocpp
+        return options || undefined
+    }
+
+    /**
+     * Parse a frame, remembering the action of CALLs so the results and
+     * errors coming back the other way carry it too
+     */
+    private readOcpp(sessionId: string, direction: MessageDirection, text: string): OcppMessage {
+        const message = parseOcpp(text)
+        if (message.messageTypeId === OcppMessageType.CALL) {
+            const key = `${sessionId}:${direction}`
+            const calls = this.ocppCalls.get(key) ?? new Map<string, string>()
+            calls.set(message.uniqueId, message.action)
+            if (calls.size > 100) calls.delete(calls.keys().next().value!)
+            this.ocppCalls.set(key, calls)
+            return message
+        }
+
+        const calls = this.ocppCalls.get(`${sessionId}:${opposite(direction)}`)
+        message.action = calls?.get(message.uniqueId)
+        calls?.delete(message.uniqueId)
+        return message
+    }
+
+    private forwardMessage(sessionId: string, direction: MessageDirection, message: Message): void {
+        if (direction === MessageDirection.UPSTREAM) {
+            const preBuffer = this.preBuffers.get(sessionId)
+            if (preBuffer) this.preBufferUpstream(sessionId, preBuffer, message)
+            else if (!this.upstreams.get(sessionId)?.send(message.data)) this.forwardFailed(sessionId, direction)
+        } else {
+            this.deliverDownstream(sessionId, message)
+        }
+    }
+
+    /**
+     * Report a frame lost because the other leg is gone
+     */
+    private forwardFailed(sessionId: string, direction: MessageDirection): void {
+        const session = this.registry.get(sessionId)
+        if (!session) return
+
+        const leg = direction === MessageDirection.UPSTREAM ? 'upstream' : 'client'
+        const error = new ProxyError('FORWARD_FAILED', `Frame not delivered to the ${leg}`, this.errorContext(sessionId, direction))
+        if (direction === MessageDirection.DOWNSTREAM) {
+            this.emit('client:error', error, session.data)
+            return
+        }
+        const upstream = this.upstreams.get(sessionId)
+        this.upstreamError(error, { sessionId, url: upstream?.url ?? session.upstreamUrl, protocol: upstream?.protocol })
+    }
+
+    private upstreamError(error: ProxyError, data: UpstreamEventData): void {
+        this.metrics?.upstreamFailures.inc({ route: this.routeLabel(data.sessionId), code: error.code })
+        this.emit('upstream:error', error, data)
+    }
+
+    /**
+     *  Pré-buffer durante o Handshake Upstream
+     */
+
+    private preBufferUpstream(sessionId: string, preBuffer: PreBuffer, message: Message): void {
+        if (preBuffer.failure) return
+
+        const size = byteLength(message.data)
+        if (preBuffer.bytes + size > (this.props.preBufferBytes ?? 64 * 1024)) {
+            this.failPreBuffer(sessionId, 1013, 'Pre-buffer limit exceeded')
+            return
+        }
+
+        preBuffer.frames.push(message)
+        preBuffer.bytes += size
+    }
+
+    private flushPreBuffer(sessionId: string, upstream: WsClient): void {
+        const preBuffer = this.preBuffers.get(sessionId)
+        if (!preBuffer || preBuffer.failure) return
+
+        this.preBuffers.delete(sessionId)
+        for (const message of preBuffer.frames) {
+            upstream.send(message.data)
+        }
+    }
+
+    /**
+     * Close the client of a pre-buffered session. If the client socket
+     * is not open yet, the close is applied as soon as it opens.
+     */
+    private failPreBuffer(sessionId: string, code: number, reason: string): void {
+        const preBuffer = this.preBuffers.get(sessionId)
+        if (!preBuffer || preBuffer.failure) return
+
+        preBuffer.failure = { code, reason }
+        preBuffer.frames = []
+        preBuffer.bytes = 0
+        // The client goes first: closing the upstream would close it with the upstream's code
+        this.server.close(sessionId, code, reason)
+        this.upstreams.get(sessionId)?.close(code, reason)
+    }
+
+    /**
+     *  Entrega Downstream com Backpressure
+     */
+
+    /**
+     * Send a frame to the client, queueing it while Bun reports backpressure.
+     * The queue exists only while the socket is congested and is flushed on `drain`.
+     */
+    private deliverDownstream(sessionId: string, message: Message): void {
+        const queue = this.queues.get(sessionId)
+        if (queue) {
+            this.enqueueDownstream(sessionId, queue, message)
+            return
+        }
+
+        const status = this.server.send(sessionId, message.data)
+        if (status === -1) {
+            this.queues.set(sessionId, { frames: [], bytes: 0, paused: false })
+        } else if (status === 0) {
+            this.forwardFailed(sessionId, MessageDirection.DOWNSTREAM)
+        }
+    }
+
+    private enqueueDownstream(sessionId: string, queue: DownstreamQueue, message: Message): void {
+        const maxQueueBytes = this.props.backpressure?.maxQueueBytes ?? 1024 * 1024
+        const overflow = this.props.backpressure?.overflow ?? 'close'
+        const size = byteLength(message.data)
 
-            const params: Record<string, string> = {}
-            routeParts.forEach((part, index) => {
-                if (part.startsWith(':')) {
-                    params[part] = pathParts[index]!
+        if (queue.bytes + size <= maxQueueBytes) {
+            queue.frames.push(message)
+            queue.bytes += size
+            return
+        }
+
+        switch (overflow) {
+            case 'drop-oldest': {
+                while (queue.frames.length > 0 && queue.bytes + size > maxQueueBytes) {
+                    const dropped = queue.frames.shift()!
+                    queue.bytes -= byteLength(dropped.data)
+                    this.emit('backpressure:dropped', { sessionId, queuedBytes: queue.bytes }, dropped)
                 }
-            })
+                if (size > maxQueueBytes) {
+                    this.emit('backpressure:dropped', { sessionId, queuedBytes: queue.bytes }, message)
+                    return
+                }
+                queue.frames.push(message)
+                queue.bytes += size
+                return
+            }
+            case 'pause': {
+                queue.frames.push(message)
+                queue.bytes += size
+                if (!queue.paused) {
+                    queue.paused = true
+                    this.upstreams.get(sessionId)?.pause()
+                    this.emit('backpressure:paused', { sessionId, queuedBytes: queue.bytes })
+                }
+                return
+            }
+            case 'close': {
+                this.queues.delete(sessionId)
+                this.emit('backpressure:closed', { sessionId, queuedBytes: queue.bytes + size })
+                this.server.close(sessionId, 1013, 'Try Again Later')
+                return
+            }
+        }
+    }
+
+    private flushDownstream(sessionId: string): void {
+        const queue = this.queues.get(sessionId)
+        if (!queue) return
+
+        while (queue.frames.length > 0) {
+            const message = queue.frames.shift()!
+            queue.bytes -= byteLength(message.data)
+            const status = this.server.send(sessionId, message.data)
+            if (status === -1) return
+            // The client is gone, but a paused upstream still has to be let go
+            if (status === 0) {
+                this.forwardFailed(sessionId, MessageDirection.DOWNSTREAM)
+                break
+            }
+        }
+
+        this.queues.delete(sessionId)
+        if (queue.paused) {
+            this.upstreams.get(sessionId)?.resume()
+            this.emit('backpressure:resumed', { sessionId, queuedBytes: 0 })
+        }
+    }
+
+    private countConnections(pattern: string, target: string): number {
+        let count = 0
+        for (const [sessionId, selected] of this.registry) {
+            if (selected.pattern === pattern && selected.target === target && this.upstreams.has(sessionId)) count++
+        }
+        return count
+    }
 
-            const targetParams = targetParts.map(part => params[part] || part)
-            const output = targetUrl.origin + '/' + targetParams.join('/') + inputUrl.search
+    private register(
+        data: WsServerData,
+        url: URL,
+        params: Record<string, string>,
+        route: Pick<SessionRecord, 'route' | 'pattern' | 'target' | 'upstreamUrl'>
+    ): void {
+        this.registry.set(data.sessionId, {
+            ...route,
+            data,
+            params,
+            url,
+            lastActivityAt: Date.now(),
+            traffic: {
+                [MessageDirection.UPSTREAM]: { bytes: 0, frames: 0 },
+                [MessageDirection.DOWNSTREAM]: { bytes: 0, frames: 0 },
+            },
+        })
+        this.indexParams(data.sessionId, params)
+    }
+
+    private unregister(sessionId: string): void {
+        const session = this.registry.get(sessionId)
+        if (!session) return
+        this.registry.delete(sessionId)
+        this.unindexParams(sessionId, session.params)
+    }
 
-            return { match: true, output }
-        } catch (err) {
-            console.error(err)
-            return { match: false }
+    private indexParams(sessionId: string, params: Record<string, string>): void {
+        for (const [name, value] of Object.entries(params)) {
+            const key = `${name}=${value}`
+            if (!this.paramIndex.has(key)) this.paramIndex.set(key, new Set())
+            this.paramIndex.get(key)!.add(sessionId)
+        }
+    }
+
+    private unindexParams(sessionId: string, params: Record<string, string>): void {
+        for (const [name, value] of Object.entries(params)) {
+            const key = `${name}=${value}`
+            this.paramIndex.get(key)?.delete(sessionId)
+            if (this.paramIndex.get(key)?.size === 0) this.paramIndex.delete(key)
         }
     }
 
     /**
-     * Find a route that matches the input url
-     * @param url       wss://habbora.com.br/ws/123
-     * @returns         /ws/:id
-     */
-    private findRoute(url: string): string | undefined {
-        return Array.from(this.routes.keys()).find((route) => {
-            const routeUrl = new URL(route, 'http://localhost')
-            const inputUrl = new URL(url)
-            const routeParts = routeUrl.pathname!.split('/').filter(Boolean)
-            const pathParts = inputUrl.pathname!.split('/').filter(Boolean)
-            if (pathParts.length !== routeParts.length) return
-            if (routeParts.every((part, index) => part === pathParts[index] || part.startsWith(':'))) return true
+     * Apply the route's duplicate policy before a new session is registered.
+     * A rejecting route claims the value right away, so concurrent upgrades
+     * can't both get through.
+     * @throws UpgradeRejection 409 when the policy rejects the new connection
+     */
+    private checkDuplicates(sessionId: string, params: Record<string, string>, policy?: DuplicatePolicy): void {
+        const value = policy && params[policy.param]
+        if (!policy || value === undefined) return
+        const key = `${policy.param}=${value}`
+        const existing = Array.from(this.paramIndex.get(key) ?? [])
+        const claimed = this.claims.get(key)
+        if (claimed) existing.push(claimed)
+
+        if (policy.action === 'reject') {
+            if (existing.length > 0) {
+                this.emit('duplicate:rejected', { param: policy.param, value, sessionId, existing })
+                throw new UpgradeRejection(409, 'Duplicate connection')
+            }
+            this.claims.set(key, sessionId)
+            return
+        }
+        if (policy.action === 'allow' && existing.length > 0) {
+            this.emit('duplicate:allowed', { param: policy.param, value, sessionId, existing })
+        }
+    }
+
+    /**
+     * Close the sessions a `close-old` route replaces, once the new one is up
+     */
+    private replaceDuplicates(sessionId: string, params: Record<string, string>, policy?: DuplicatePolicy): void {
+        const value = policy?.action === 'close-old' ? params[policy.param] : undefined
+        if (!policy || value === undefined) return
+        const existing = Array.from(this.paramIndex.get(`${policy.param}=${value}`) ?? [])
+            .filter(id => id !== sessionId)
+        if (existing.length === 0) return
+
+        for (const id of existing) {
+            this.unregister(id)
+            this.server.close(id, 1008, 'Replaced by a new connection')
+            this.upstreams.get(id)?.close(1008, 'Replaced by a new connection')
+        }
+        this.emit('duplicate:replaced', { param: policy.param, value, sessionId, existing })
+    }
+
+    private releaseClaims(sessionId: string): void {
+        for (const [key, id] of this.claims) {
+            if (id === sessionId) this.claims.delete(key)
+        }
+    }
+
+    /**
+     * Pick a healthy target of the route's pool
+     * @returns { target: 'ws://backend/ocpp/:id', href: 'ws://backend/ocpp/CP001' } or undefined
+     */
+    private pickTarget(
+        { route: { config, pool, targets }, match }: { route: RouteEntry, match: RouteMatch },
+        url: URL
+    ): { target: string, href: string } | undefined {
+        const target = pool.pick(match.params, (target) => {
+            return this.countConnections(config.pattern, target)
         })
+        if (!target) return
+        return { target, href: targets.get(target)!.render(match, url.searchParams) }
     }
 
-    private async onUpgrade(data: WsServerData): Promise<boolean> {
-        const route = this.findRoute(data.url)
-        if (!route) return false
+    /**
+     * Point the next reconnect of an orphaned session at the current route table,
+     * with the params, metadata and handshake of its new route. Sessions without
+     * a matching route, or whose subprotocol the new route disallows, are closed.
+     */
+    private async migrate(sessionId: string, upstream: WsClient): Promise<void> {
+        const session = this.registry.get(sessionId)!
+        session.migrate = false
+        const found = this.findRoute(session.url, session.data.headers)
+        const picked = found && this.pickTarget(found, session.url)
+        const allowed = found?.route.config.allowedSubprotocols
+        const protocol = session.data.protocol
+        if (!found || !picked || (allowed && protocol && !allowed.includes(protocol))) {
+            this.server.close(sessionId, 1001, 'Route removed')
+            return
+        }
 
-        const { output } = WsProxy.matchRouter({
-            route,
-            input: data.url,
-            target: this.routes.get(route)!
+        const { config } = found.route
+        const params = found.match.params
+        this.unindexParams(sessionId, session.params)
+        Object.assign(session, {
+            route: found.route.key,
+            pattern: config.pattern,
+            target: picked.target,
+            upstreamUrl: picked.href,
+            params,
         })
+        this.indexParams(sessionId, params)
 
-        if (!output) return false
+        const metadata: MessageMetadata = {
+            ...config.metadata,
+            ...session.identity,
+            routeParams: params,
+            clientCertificate: session.data.clientCertificate,
+        }
+        this.metadata.set(sessionId, metadata)
 
+        let headers: Record<string, string>
         try {
-            await this.createUpstreamConnection({
+            headers = await this.upstreamHeaders(config.upstreamHeaders, {
+                sessionId,
+                url: session.url,
+                headers: session.data.headers,
+                params,
+                remoteAddress: session.data.remoteAddress,
+                clientCertificate: session.data.clientCertificate,
+                route: config,
+                metadata,
+            })
+        } catch (error) {
+            this.logger.error('[Proxy] Upstream header failed:', error)
+            this.upstreamError(ProxyError.from(error, 'HEADER_FAILED', this.errorContext(sessionId)), {
+                sessionId, url: picked.href, protocol: upstream.protocol,
+            })
+            this.server.close(sessionId, 1011, 'Upstream header failed')
+            return
+        }
+
+        upstream.retarget(picked.href, { headers, tls: config.upstreamTls, reconnect: config.reconnect })
+    }
+
+    /**
+     * Find the most specific route that matches the input url and headers
+     * @param url       wss://habbora.com.br/ws/123
+     * @param headers   { host: 'habbora.com.br', ... }
+     * @returns         { route: { config: { pattern: '/ws/:id', ... }, ... }, match: { params: { id: '123' }, ... } }
+     */
+    private findRoute(url: URL, headers: Record<string, string>): { route: RouteEntry, match: RouteMatch } | undefined {
+        for (const route of this.sortedRoutes) {
+            if (!route.conditions.matches(headers)) continue
+            const match = route.pattern.match(url.pathname)
+            if (match) return { route, match }
+        }
+    }
+
+    /**
+     * Ask the resolver for a decision, reusing cached ones while fresh
+     */
+    private async resolveRoute(ctx: ResolveContext): Promise<RouteDecision | null> {
+        if (!this.resolver) return null
+
+        const { handler, options } = this.resolver
+        if (!options.cacheTtlMs) return handler(ctx)
+
+        const key = options.cacheKey?.(ctx) ?? `${ctx.url.host}${ctx.url.pathname}`
+        const cached = this.decisions.get(key)
+        if (cached && cached.expiresAt > Date.now()) return cached.decision
+        if (cached) this.decisions.delete(key)
+
+        const decision = await handler(ctx)
+        // Maps keep insertion order, so the first key is the oldest decision
+        this.decisions.delete(key)
+        while (this.decisions.size > 0 && this.decisions.size >= (options.cacheSize ?? 10_000)) {
+            this.decisions.delete(this.decisions.keys().next().value!)
+        }
+        this.decisions.set(key, { decision, expiresAt: Date.now() + options.cacheTtlMs })
+        return decision
+    }
+
+    /**
+     * Validate the handshake credentials, if an authenticator is set
+     * @returns     session metadata of the authenticated client
+     */
+    private async authenticateClient(
+        data: WsServerData,
+        url: URL,
+        params: Record<string, string>
+    ): Promise<MessageMetadata> {
+        if (!this.authenticator) return {}
+
+        const { validator, options } = this.authenticator
+        const credentials = parseCredentials(data.headers, url, options)
+        if (!credentials) throw unauthorized(options)
+        // The token reaches neither the upstream nor the events and logs carrying `data.url`
+        if (credentials.scheme === 'query') {
+            url.searchParams.delete(options.queryParam ?? 'token')
+            data.url = url.href
+        }
+
+        let result
+        try {
+            result = await validator({
                 sessionId: data.sessionId,
-                href: output!,
-                protocol: data.protocol
+                credentials,
+                params,
+                headers: data.headers,
+                url,
+                remoteAddress: data.remoteAddress,
+                clientCertificate: data.clientCertificate,
             })
-            return true
         } catch (error) {
-            console.error('[Proxy] Failed to create upstream connection:', error)
-            return false
+            if (error instanceof UpgradeRejection) throw error
+            this.logger.error('[Proxy] Authenticator failed:', error)
+            this.emit('upgrade:error', ProxyError.from(error, 'AUTH_FAILED', this.errorContext(data)), data)
+            throw new UpgradeRejection(500, 'Authenticator failed')
+        }
+        if (!result) throw unauthorized(options)
+
+        const identity = result === true ? {} : result
+        return {
+            ...identity.metadata,
+            userId: identity.userId ?? (credentials.scheme === 'basic' ? credentials.username : undefined),
+            authenticated: true,
+        }
+    }
+
+    /**
+     * Offered subprotocols the route allows, in the client's order
+     * @throws UpgradeRejection 400 when the client offered only disallowed ones
+     */
+    private allowedProtocols(offered: string[], allowed?: string[]): string[] {
+        if (!allowed) return offered
+        const protocols = offered.filter(protocol => allowed.includes(protocol))
+        if (offered.length > 0 && protocols.length === 0) {
+            throw new UpgradeRejection(400, 'Unsupported subprotocol')
+        }
+        return protocols
+    }
+
+    private async upstreamHeaders(
+        route: UpstreamHeadersOptions | undefined,
+        ctx: UpstreamHeaderContext
+    ): Promise<Record<string, string>> {
+        const defaults = this.props.upstreamHeaders ?? {}
+        const forwarded = route?.forwarded ?? defaults.forwarded ?? false
+        const copy = [...defaults.copy ?? [], ...route?.copy ?? []]
+        const set = { ...defaults.set, ...route?.set }
+        const headers: Record<string, string> = {}
+
+        if (forwarded) {
+            const chain = [ctx.headers['x-forwarded-for'], ctx.remoteAddress].filter(Boolean)
+            if (chain.length > 0) headers['x-forwarded-for'] = chain.join(', ')
+            headers['x-forwarded-proto'] = ctx.url.protocol === 'https:' ? 'https' : 'http'
+            if (ctx.headers['host']) headers['x-forwarded-host'] = ctx.headers['host']
+        }
+
+        for (const name of copy) {
+            const value = ctx.headers[name.toLowerCase()]
+            if (value !== undefined) headers[name.toLowerCase()] = value
         }
+
+        for (const [name, value] of Object.entries(set)) {
+            const resolved = typeof value === 'function' ? await value(ctx) : value
+            if (resolved !== undefined) headers[name.toLowerCase()] = resolved
+        }
+
+        return headers
     }
 
     /**
-     * Add a new route to the proxy
+     * Pick the upstream for a client and connect to it.
+     * Throws an UpgradeRejection to refuse the handshake.
+     */
+    private async onUpgrade(data: WsServerData): Promise<void> {
+        if (this.closing) throw new UpgradeRejection(503, 'Shutting down')
+        const url = new URL(data.url)
+        const found = this.findRoute(url, data.headers)
+        // Without a resolver nothing can serve an unmatched path, credentials or not
+        if (!found && !this.resolver) this.routeError(data, 'NO_ROUTE', new UpgradeRejection(404, 'No route'))
+        const params = found?.match.params ?? {}
+        const identity = await this.authenticateClient(data, url, params)
+        const protocols = this.allowedProtocols(data.protocols, found?.route.config.allowedSubprotocols)
+        this.checkDuplicates(data.sessionId, params, found?.route.config.duplicates)
+
+        const context: ResolveContext = {
+            sessionId: data.sessionId,
+            url,
+            headers: data.headers,
+            params,
+            remoteAddress: data.remoteAddress,
+            clientCertificate: data.clientCertificate,
+            route: found?.route.config,
+        }
+
+        let decision: RouteDecision | null
+        try {
+            decision = await this.resolveRoute(context)
+        } catch (error) {
+            this.logger.error('[Proxy] Route resolver failed:', error)
+            this.routeError(data, 'RESOLVER_FAILED', new UpgradeRejection(500, 'Route resolver failed'), error)
+        }
+        if (decision?.reject) {
+            const { status, reason, ...options } = decision.reject
+            throw new UpgradeRejection(status, reason ?? 'Rejected', options)
+        }
+
+        let output: string
+        if (decision?.target) {
+            output = decision.target
+            this.register(data, url, params, { target: output, upstreamUrl: output })
+        } else if (found) {
+            const picked = this.pickTarget(found, url)
+            if (!picked) this.routeError(data, 'NO_HEALTHY_UPSTREAM', new UpgradeRejection(503, 'No healthy upstream'))
+
+            output = picked.href
+            this.register(data, url, params, {
+                route: found.route.key,
+                pattern: found.route.config.pattern,
+                target: picked.target,
+                upstreamUrl: output,
+            })
+        } else {
+            this.routeError(data, 'NO_ROUTE', new UpgradeRejection(404, 'No route'))
+        }
+
+        const metadata: MessageMetadata = {
+            ...found?.route.config.metadata,
+            ...decision?.metadata,
+            ...identity,
+            routeParams: params,
+            clientCertificate: data.clientCertificate,
+        }
+        this.metadata.set(data.sessionId, metadata)
+        this.registry.get(data.sessionId)!.identity = { ...decision?.metadata, ...identity }
+
+        let headers: Record<string, string>
+        try {
+            headers = {
+                ...await this.upstreamHeaders(found?.route.config.upstreamHeaders, { ...context, metadata }),
+                ...decision?.headers,
+            }
+        } catch (error) {
+            this.logger.error('[Proxy] Upstream header failed:', error)
+            this.emit('upgrade:error', ProxyError.from(error, 'HEADER_FAILED', this.errorContext(data)), data)
+            throw new UpgradeRejection(500, 'Upstream header failed')
+        }
+
+        // The client is answered before the upstream opens, so only the first allowed protocol is offered
+        const immediate = this.props.upgradeMode === 'immediate'
+        const connection = this.createUpstreamConnection({
+            sessionId: data.sessionId,
+            href: output,
+            protocols: immediate ? protocols.slice(0, 1) : protocols,
+            headers,
+            reconnect: found?.route.config.reconnect,
+            tls: decision?.tls ?? found?.route.config.upstreamTls,
+        })
+
+        if (immediate) {
+            data.protocol = protocols[0]
+            this.preBuffers.set(data.sessionId, { frames: [], bytes: 0 })
+            connection.then(
+                (upstream) => {
+                    this.replaceDuplicates(data.sessionId, params, found?.route.config.duplicates)
+                    this.flushPreBuffer(data.sessionId, upstream)
+                },
+                (rejection: UpgradeRejection) => {
+                    this.logger.error('[Proxy] Failed to create upstream connection:', rejection)
+                    this.failPreBuffer(data.sessionId, 1014, rejection.reason)
+                }
+            )
+            return
+        }
+
+        try {
+            const upstream = await connection
+            if (this.closing) {
+                upstream.close(1001, 'Going Away')
+                throw new UpgradeRejection(503, 'Shutting down')
+            }
+            data.protocol = upstream.protocol ?? protocols[0]
+        } catch (error) {
+            this.logger.error('[Proxy] Failed to create upstream connection:', error)
+            throw error
+        }
+        this.replaceDuplicates(data.sessionId, params, found?.route.config.duplicates)
+    }
+
+    /**
+     * Add a new route to the proxy. Routes are keyed by `name`, or by the
+     * pattern when unnamed, so give a name to routes sharing a pattern.
      * @param route     /intelbras'
-     * @param target    ws://localhost:8081/ocpp/
+     * @param target    ws://localhost:8081/ocpp/ or a pool of targets
+     * @param options   { name, host, headers, subprotocols, allowedSubprotocols, duplicates, metadata, reconnect, balance, healthCheck, upstreamTls, upstreamHeaders }
+     * @returns         WebsocketProxy
+     */
+    public route(route: string, target: string | string[], options: RouteOptions = {}): this {
+        const entry = this.compileRoute({ ...options, pattern: route, target })
+
+        this.routes.get(entry.key)?.pool.stop()
+        this.routes.set(entry.key, entry)
+        this.sortRoutes()
+        entry.pool.start()
+        return this
+    }
+
+    /**
+     * Replace the whole route table at once. Sessions whose route is gone,
+     * or whose target left the route's pool, are handled by `orphans`.
+     * @param configs   [{ pattern, target, ...options }]
+     * @param options   { orphans: 'leave' | 'drain' | 'migrate', graceMs }
+     * @returns         WebsocketProxy
+     */
+    public setRoutes(configs: RouteConfig[], options: SetRoutesOptions = {}): this {
+        const entries = configs.map(config => this.compileRoute(config))
+        const previous = this.routes
+
+        this.routes = new Map(entries.map(entry => [entry.key, entry]))
+        this.sortRoutes()
+        for (const entry of previous.values()) entry.pool.stop()
+        for (const entry of entries) entry.pool.start()
+
+        const orphans = Array.from(this.registry.entries())
+            .filter(([, session]) => session.route !== undefined)
+            .filter(([, session]) => {
+                const entry = this.routes.get(session.route!)
+                return !entry || entry.config.pattern !== session.pattern || !entry.targets.has(session.target)
+            })
+            .map(([sessionId]) => sessionId)
+
+        switch (options.orphans ?? 'leave') {
+            case 'drain': {
+                const timer = setTimeout(() => {
+                    this.drainTimers.delete(timer)
+                    for (const sessionId of orphans) this.server.close(sessionId, 1001, 'Route removed')
+                }, options.graceMs ?? 30_000)
+                this.drainTimers.add(timer)
+                break
+            }
+            case 'migrate':
+                for (const sessionId of orphans) this.registry.get(sessionId)!.migrate = true
+                break
+        }
+        return this
+    }
+
+    private compileRoute(config: RouteConfig): RouteEntry {
+        const targets = Array.isArray(config.target) ? config.target : [config.target]
+        return {
+            key: config.name ?? config.pattern,
+            config,
+            pattern: new RoutePattern(config.pattern),
+            conditions: new RouteConditions(config),
+            targets: new Map(targets.map(target => [target, new TargetTemplate(target)])),
+            pool: new TargetPool(targets, config.balance, config.healthCheck, config.upstreamTls)
+                .on('target:down', (target) => this.emit('target:down', { pattern: config.pattern, target }))
+                .on('target:up', (target) => this.emit('target:up', { pattern: config.pattern, target })),
+        }
+    }
+
+    /**
+     * Resolve routes dynamically during the upgrade. The resolver runs
+     * before the static routes are applied and receives their params.
+     * @param resolver  async (ctx) => ({ target, headers, metadata, reject }) | null
+     * @param options   { cacheTtlMs, cacheKey, cacheSize }
+     * @returns         WebsocketProxy
+     */
+    public resolve(resolver: RouteResolver, options: ResolveOptions = {}): this {
+        this.resolver = { handler: resolver, options }
+        this.decisions.clear()
+        return this
+    }
+
+    /**
+     * Authenticate clients during the upgrade from Basic auth, a bearer
+     * token or a query token. Failures are answered with 401.
+     * @param validator async ({ credentials, params }) => ({ userId }) | boolean
+     * @param options   { schemes, queryParam, realm }
      * @returns         WebsocketProxy
      */
-    public route(route: string, target: string): this {
-        this.routes.set(route, target)
+    public authenticate(validator: AuthValidator, options: AuthOptions = {}): this {
+        this.authenticator = { validator, options }
         return this
     }
 
     /**
      * Remove a route from the proxy
-     * @param route     /intelbras'
+     * @param route     /intelbras' or the route name
      * @returns         WebsocketProxy
      */
     public unroute(route: string): this {
+        this.routes.get(route)?.pool.stop()
         this.routes.delete(route)
+        this.sortRoutes()
+        return this
+    }
+
+    private sortRoutes(): void {
+        this.sortedRoutes = Array.from(this.routes.values())
+            .sort(RouteConditions.compare)
+    }
+
+    /**
+     * Shut the proxy down: stop accepting upgrades, let in-flight middleware
+     * finish, send 1001 to clients, then close what is left once
+     * `drainTimeoutMs` runs out. Safe to call from a SIGTERM handler.
+     * @returns resolves once every client and upstream is closed
+     */
+    public close(options: ProxyCloseOptions = {}): Promise<void> {
+        this.closing ??= this.shutdown(options)
+        return this.closing
+    }
+
+    private async shutdown({ drainTimeoutMs = 10_000, goingAway = true }: ProxyCloseOptions): Promise<void> {
+        const deadline = Date.now() + drainTimeoutMs
+        await this.server.stop()
+        for (const route of this.routes.values()) route.pool.stop()
+        for (const timer of this.drainTimers) clearTimeout(timer)
+        this.drainTimers.clear()
+
+        let settled = false
+        Promise.allSettled(this.pipelines.values()).then(() => settled = true)
+        await waitUntil(() => settled, deadline)
+
+        if (goingAway) this.server.closeAll(1001, 'Going Away')
+        await waitUntil(() => this.server.connections === 0 && this.upstreams.size === 0, deadline)
+
+        await this.server.stop(true)
+        for (const upstream of this.upstreams.values()) upstream.close(1001, 'Going Away')
+        await waitUntil(() => this.upstreams.size === 0, Date.now() + 1000)
+        this.admin?.stop()
+    }
+
+    /**
+     * @returns uptime and counts of sessions, upstreams and routes
+     */
+    public status(): ProxyStatus {
+        return {
+            startedAt: this.startedAt,
+            uptimeMs: Date.now() - this.startedAt,
+            sessions: this.registry.size,
+            upstreams: this.upstreams.size,
+            routes: this.routes.size,
+            closing: this.closing !== undefined,
+        }
+    }
+
+    /**
+     * Routes in match order
+     */
+    public listRoutes(): RouteConfig[] {
+        return this.sortedRoutes.map(entry => ({ ...entry.config }))
+    }
+
+    /**
+     * Start or stop recording the frames of a session, keeping the last `limit`
+     * @returns false when the session isn't connected
+     */
+    public capture(sessionId: string, enabled: boolean, limit: number = 100): boolean {
+        const session = this.registry.get(sessionId)
+        if (!session?.connectedAt) return false
+        if (!enabled) session.capture = undefined
+        else if (session.capture) session.capture.limit = limit
+        else session.capture = { limit, frames: [] }
+        return true
+    }
+
+    /**
+     * @returns frames recorded since capture started, or undefined when not capturing
+     */
+    public captured(sessionId: string): CapturedFrame[] | undefined {
+        const frames = this.registry.get(sessionId)?.capture?.frames
+        return frames ? [...frames] : undefined
+    }
+
+    /**
+     * Registry behind the metrics endpoint, to add application metrics.
+     * Undefined unless `metrics` is set.
+     */
+    public get metricsRegistry(): MetricsRegistry | undefined {
+        return this.metrics?.registry
+    }
+
+    /**
+     * Health of every target in a route's pool
+     * @param route     /intelbras' or the route name
+     * @returns         [{ target, healthy }]
+     */
+    public health(route: string): TargetHealth[] {
+        return this.routes.get(route)?.pool.health ?? []
+    }
+
+    /**
+     *  Sessões
+     */
+
+    /**
+     * Snapshots of every session whose client is connected
+     */
+    public sessions(): SessionInfo[] {
+        return Array.from(this.registry.keys())
+            .map(sessionId => this.getSession(sessionId))
+            .filter((session): session is SessionInfo => session !== undefined)
+    }
+
+    /**
+     * @returns snapshot of the session, or undefined when its client isn't connected
+     */
+    public getSession(sessionId: string): SessionInfo | undefined {
+        const session = this.registry.get(sessionId)
+        if (!session?.connectedAt) return
+        const metadata = this.metadata.get(sessionId) ?? {}
+        return {
+            sessionId,
+            url: session.url.href,
+            route: session.route,
+            target: session.target,
+            upstreamUrl: session.upstreamUrl,
+            params: { ...session.params },
+            subprotocol: session.data.protocol,
+            remoteAddress: session.data.remoteAddress,
+            connectedAt: session.connectedAt,
+            lastActivityAt: session.lastActivityAt,
+            upstream: { ...session.traffic.upstream },
+            downstream: { ...session.traffic.downstream },
+            rtt: { client: this.server.rtt(sessionId), upstream: this.upstreams.get(sessionId)?.rtt },
+            capturing: session.capture !== undefined,
+            metadata: { ...metadata },
+        }
+    }
+
+    /**
+     * Connected sessions whose route param `name` equals `value`
+     * @param name      route param, ex.: 'id' for /ocpp/:id
+     * @param value     ex.: 'CP001'
+     */
+    public findByParam(name: string, value: string): SessionInfo[] {
+        return Array.from(this.paramIndex.get(`${name}=${value}`) ?? [])
+            .map(sessionId => this.getSession(sessionId))
+            .filter((session): session is SessionInfo => session !== undefined)
+    }
+
+    /**
+     * Close a client. Its upstream is closed with the same code and reason.
+     * @returns false when the session isn't connected
+     */
+    public kick(sessionId: string, code: number = 1000, reason: string = ''): boolean {
+        if (!this.registry.get(sessionId)?.connectedAt) return false
+        this.server.close(sessionId, code, truncateReason(reason))
+        return true
+    }
+
+    /**
+     * Inject a frame into a session without running the middlewares
+     * @param direction upstream: to the backend as if sent by the client, downstream: to the client
+     * @returns false when the session isn't connected
+     */
+    public sendTo(sessionId: string, direction: MessageDirection, message: WsMessageData | Message): boolean {
+        if (!this.registry.get(sessionId)?.connectedAt) return false
+        const frame = typeof message === 'object' && 'type' in message ? message : createMessage(message)
+        this.forwardMessage(sessionId, direction, frame)
+        return true
+    }
+
+    /**
+     * Register a middleware for every frame, in both directions
+     * @param middleware    (context, next) => { ... }
+     * @returns             WebsocketProxy
+     */
+    public use(middleware: Middleware): this {
+        this.middlewares.push(middleware)
         return this
     }
 
+    /**
+     * Register a middleware for client → server frames only
+     */
+    public useUpstream(middleware: UpstreamMiddleware): this {
+        return this.useIf(isUpstream, middleware)
+    }
+
+    /**
+     * Register a middleware for server → client frames only
+     */
+    public useDownstream(middleware: DownstreamMiddleware): this {
+        return this.useIf(isDownstream, middleware)
+    }
+
+    /**
+     * Register a middleware for text frames only
+     */
+    public useText(middleware: TextMiddleware): this {
+        return this.useIf(isTextMessage, middleware)
+    }
+
+    /**
+     * Register a middleware for binary frames only
+     */
+    public useBinary(middleware: BinaryMiddleware): this {
+        return this.useIf(isBinaryMessage, middleware)
+    }
+
+    /**
+     * Register a middleware for the CALLs of `action` and for the results
+     * and errors answering them. Needs the `ocpp` option.
+     * @param action    BootNotification
+     */
+    public onOcpp(action: string, middleware: Middleware<OcppMessageContext>): this {
+        return this.useIf((context): context is OcppMessageContext => context.ocpp?.action === action, middleware)
+    }
+
+    /**
+     * Register a middleware that only runs when the type guard matches
+     */
+    public useIf<TContext extends MessageContext>(
+        condition: (context: MessageContext) => context is TContext,
+        middleware: Middleware<TContext>
+    ): this {
+        return this.use((context, next) => {
+            if (condition(context)) return middleware(context, next)
+            return next()
+        })
+    }
+
     /**
      * Override the on method to add type checking
      */
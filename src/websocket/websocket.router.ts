@@ -0,0 +1,240 @@
+/**
+ * Route pattern segments:
+ * - static:    ocpp
+ * - param:     :id, optional :id?, constrained :id(\d+) or :id(\d+)?
+ * - wildcard:  * matches exactly one segment
+ * - rest:      ** matches zero or more segments
+ */
+type Segment =
+    | { kind: 'static', value: string }
+    | { kind: 'param', name: string, optional: boolean, constraint?: RegExp }
+    | { kind: 'wildcard' }
+    | { kind: 'rest' }
+
+export type RouteMatch = {
+    params: Record<string, string>
+    wildcards: string[]
+    rest?: string
+}
+
+const PARAM_SEGMENT = /^:([A-Za-z_]\w*)(?:\((.+)\))?(\?)?$/
+
+const splitPath = (pathname: string): string[] => pathname.split('/').filter(Boolean)
+
+/**
+ * Higher is more specific. Used to order routes segment by segment.
+ * A pattern that already ended only matches the path exactly, so it
+ * goes before optional params and `**` that would match nothing there.
+ */
+const rank = (segment?: Segment): number => {
+    if (!segment) return 6
+    switch (segment.kind) {
+        case 'static': return 5
+        case 'param': return segment.constraint
+            ? (segment.optional ? 3 : 4)
+            : (segment.optional ? 1 : 2)
+        case 'wildcard': return 1
+        case 'rest': return 0
+    }
+}
+
+export class RoutePattern {
+    readonly segments: Segment[]
+
+    /**
+     * @param pattern ex.: /ocpp/:id(\d+)/**
+     */
+    constructor(readonly pattern: string) {
+        this.segments = splitPath(pattern).map((part): Segment => {
+            if (part === '**') return { kind: 'rest' }
+            if (part === '*') return { kind: 'wildcard' }
+            if (!part.startsWith(':')) return { kind: 'static', value: part }
+
+            const param = PARAM_SEGMENT.exec(part)
+            if (!param) throw new Error(`Invalid route segment "${part}" in "${pattern}"`)
+            const [, name, constraint, optional] = param
+            return {
+                kind: 'param',
+                name: name!,
+                optional: optional === '?',
+                constraint: constraint ? new RegExp(`^(?:${constraint})$`) : undefined,
+            }
+        })
+    }
+
+    /**
+     * @param pathname ex.: /ocpp/123/status
+     * @returns { params: { id: '123' }, wildcards: [], rest: 'status' } or null
+     */
+    match(pathname: string): RouteMatch | null {
+        return this.matchFrom(splitPath(pathname), 0, 0, { params: {}, wildcards: [] })
+    }
+
+    private matchFrom(parts: string[], i: number, j: number, acc: RouteMatch): RouteMatch | null {
+        const segment = this.segments[i]
+        if (!segment) return j === parts.length ? acc : null
+
+        const part = parts[j]
+        switch (segment.kind) {
+            case 'static':
+                return part === segment.value ? this.matchFrom(parts, i + 1, j + 1, acc) : null
+            case 'wildcard':
+                return part !== undefined
+                    ? this.matchFrom(parts, i + 1, j + 1, { ...acc, wildcards: [...acc.wildcards, part] })
+                    : null
+            case 'param': {
+                if (part !== undefined && (!segment.constraint || segment.constraint.test(part))) {
+                    const params = { ...acc.params, [segment.name]: part }
+                    const matched = this.matchFrom(parts, i + 1, j + 1, { ...acc, params })
+                    if (matched) return matched
+                }
+                return segment.optional ? this.matchFrom(parts, i + 1, j, acc) : null
+            }
+            case 'rest': {
+                for (let end = parts.length; end >= j; end--) {
+                    const rest = parts.slice(j, end).join('/')
+                    const matched = this.matchFrom(parts, i + 1, end, { ...acc, rest })
+                    if (matched) return matched
+                }
+                return null
+            }
+        }
+    }
+
+    /**
+     * Sort comparator: more specific patterns first
+     */
+    static compare(a: RoutePattern, b: RoutePattern): number {
+        const length = Math.max(a.segments.length, b.segments.length)
+        for (let i = 0; i < length; i++) {
+            const diff = rank(b.segments[i]) - rank(a.segments[i])
+            if (diff !== 0) return diff
+        }
+        return 0
+    }
+}
+
+/**
+ * Target template tokens, in path segments or query values:
+ * - :name        route param (segment dropped when the param is absent)
+ * - :query.name  query param of the client request
+ * - *            next wildcard capture, in order
+ * - **           rest capture
+ * Query params of the client request are appended unless the target sets them.
+ */
+export class TargetTemplate {
+    private readonly origin: string
+    private readonly segments: string[]
+    private readonly query: [string, string][]
+
+    /**
+     * @param target ex.: ws://backend/ocpp/:id/**?site=:query.site
+     */
+    constructor(readonly target: string) {
+        const url = new URL(target)
+        this.origin = url.origin
+        this.segments = splitPath(url.pathname)
+        this.query = Array.from(url.searchParams.entries())
+    }
+
+    /**
+     * @param match     result of RoutePattern.match
+     * @param query     query params of the client request
+     * @returns         ws://backend/ocpp/123/status?site=north
+     */
+    render(match: RouteMatch, query: URLSearchParams): string {
+        let wildcard = 0
+        const resolve = (token: string): string | undefined => {
+            if (token === '**') return match.rest
+            if (token === '*') return match.wildcards[wildcard++]
+            if (token.startsWith(':query.')) return query.get(token.slice(7)) ?? undefined
+            if (token.startsWith(':')) return match.params[token.slice(1)]
+            return token
+        }
+
+        const path = this.segments.map(resolve).filter(Boolean).join('/')
+        const search = new URLSearchParams()
+        for (const [key, value] of this.query) {
+            const resolved = resolve(value)
+            if (resolved !== undefined) search.append(key, resolved)
+        }
+        for (const [key, value] of query) {
+            if (!this.query.some(([name]) => name === key)) search.append(key, value)
+        }
+
+        const queryString = search.toString()
+        return this.origin + '/' + path + (queryString ? `?${queryString}` : '')
+    }
+}
+
+export type RouteConditionsOptions = {
+    host?: string
+    headers?: Record<string, string | RegExp>
+    subprotocols?: string[]
+}
+
+/**
+ * Request conditions of a route besides the path:
+ * - host:          exact hostname or `*.example.com` (port ignored unless given)
+ * - headers:       exact value or RegExp per header name
+ * - subprotocols:  at least one must be offered in Sec-WebSocket-Protocol
+ */
+export class RouteConditions {
+    private readonly host?: RegExp
+    private readonly hostHasPort: boolean
+    private readonly headers: [string, string | RegExp][]
+    private readonly subprotocols: string[]
+    private readonly hostRank: number
+    private readonly weight: number
+
+    constructor(options: RouteConditionsOptions = {}) {
+        if (options.host) {
+            const escaped = options.host.toLowerCase()
+                .split('*')
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('[^.]+')
+            this.host = new RegExp(`^${escaped}$`)
+        }
+        this.hostHasPort = options.host?.includes(':') ?? false
+        this.headers = Object.entries(options.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])
+        this.subprotocols = options.subprotocols ?? []
+        this.hostRank = options.host ? (options.host.includes('*') ? 1 : 2) : 0
+        this.weight = this.headers.length + (this.subprotocols.length > 0 ? 1 : 0)
+    }
+
+    /**
+     * @param headers   request headers with lowercase names
+     */
+    matches(headers: Record<string, string>): boolean {
+        if (this.host) {
+            const host = (headers['host'] ?? '').toLowerCase()
+            if (!this.host.test(this.hostHasPort ? host : host.replace(/:\d+$/, ''))) return false
+        }
+
+        for (const [name, expected] of this.headers) {
+            const value = headers[name]
+            if (value === undefined) return false
+            if (typeof expected === 'string' ? value !== expected : !expected.test(value)) return false
+        }
+
+        if (this.subprotocols.length > 0) {
+            const offered = (headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim())
+            if (!this.subprotocols.some(protocol => offered.includes(protocol))) return false
+        }
+
+        return true
+    }
+
+    /**
+     * Sort comparator: host-bound routes first (exact before wildcard),
+     * then path specificity, then routes with more conditions
+     */
+    static compare(
+        a: { conditions: RouteConditions, pattern: RoutePattern },
+        b: { conditions: RouteConditions, pattern: RoutePattern }
+    ): number {
+        return (b.conditions.hostRank - a.conditions.hostRank)
+            || RoutePattern.compare(a.pattern, b.pattern)
+            || (b.conditions.weight - a.conditions.weight)
+    }
+}
@@ -1,44 +1,104 @@
 import { EventEmitter } from "events";
+import type { WsBinaryType, WsMessageData } from "./websocket.client";
+import { ProxyError, UpgradeRejection } from "./websocket.errors";
+import { bunTlsOptions, TlsTerminator, type ClientCertificate, type WsTlsOptions } from "./websocket.tls";
+import { Heartbeat, type KeepaliveOptions } from "./websocket.keepalive";
 
+/**
+ * - idleTimeout: seconds without any frame before Bun closes a client (default 255)
+ * - keepalive: ping clients and drop the ones that stop answering
+ */
 export type WsServerProps = {
     hostname: string,
     port: number,
     idleTimeout?: number,
+    keepalive?: KeepaliveOptions,
+    binaryType?: WsBinaryType,
     rootFunction?: (req: Request) => Promise<any | undefined>,
+    tls?: WsTlsOptions,
 }
 
+/**
+ * - protocols: subprotocols offered by the client, in order of preference
+ * - protocol: subprotocol answered to the client. Defaults to the first
+ *   offered one; an upgrade handler may pick another offered value.
+ */
 export type WsServerData = {
     sessionId: string;
     url: string;
+    protocols: string[];
     protocol?: string;
+    headers: Record<string, string>;
+    remoteAddress?: string;
+    clientCertificate?: ClientCertificate;
 }
 
 export interface WsServerEvents {
     'open': (data: WsServerData) => void
-    'message': (data: WsServerData, message: string) => void
-    'close': (data: WsServerData, code: number) => void
+    'message': (data: WsServerData, message: WsMessageData) => void
+    'close': (data: WsServerData, code: number, reason: string) => void
+    'drain': (data: WsServerData) => void
+    'upgrade:error': (error: ProxyError, data: WsServerData) => void
+    'upgrade:aborted': (data: WsServerData) => void
+    'timeout': (data: WsServerData, missed: number) => void
+    'tls:error': (error: ProxyError, remoteAddress?: string) => void
 }
 
 export class WsServer extends EventEmitter {
     private clients: Map<string, Bun.ServerWebSocket<WsServerData>> = new Map()
+    private heartbeats: Map<string, Heartbeat> = new Map()
     private onUpgradeHandler?: UpgradeHandler
+    private terminator?: TlsTerminator
+    private server: Bun.Server<WsServerData>
 
     constructor(props: WsServerProps) {
         super()
-        Bun.serve({
-            hostname: props.hostname,
-            port: props.port,
+        // Client certificates are only readable through the TLS terminator
+        const terminate = props.tls?.requestCert ?? false
+        const server = this.server = Bun.serve({
+            hostname: terminate ? '127.0.0.1' : props.hostname,
+            port: terminate ? 0 : props.port,
+            tls: props.tls && !terminate ? bunTlsOptions(props.tls) : undefined,
             fetch: async (req, server) => {
+                const ip = server.requestIP(req)
+                const peer = ip ? this.terminator?.peer(ip.port) : undefined
+                // Only the TLS terminator may reach the loopback listener
+                if (terminate && !peer) return new Response('Forbidden', { status: 403 })
                 if (req.headers.get('upgrade') === 'websocket') {
-                    const protocol = req.headers.get('sec-websocket-protocol') || undefined
-                    const ctx = { sessionId: Bun.randomUUIDv7(), url: req.url, protocol }
+                    if (!isHandshake(req.headers)) return new Response('Bad Request', { status: 400 })
+                    const protocols = parseProtocols(req.headers.get('sec-websocket-protocol'))
+                    const headers: Record<string, string> = {}
+                    req.headers.forEach((value, name) => headers[name] = value)
+                    const url = new URL(req.url)
+                    if (terminate) url.protocol = 'https:'
+                    const ctx: WsServerData = {
+                        sessionId: Bun.randomUUIDv7(),
+                        url: url.href,
+                        protocols,
+                        protocol: protocols[0],
+                        headers,
+                        remoteAddress: peer ? peer.remoteAddress : ip?.address,
+                        clientCertificate: peer?.certificate,
+                    }
+                    // The client may hang up while the handler waits on the upstream
+                    const abort = () => this.emit('upgrade:aborted', ctx)
+                    req.signal.addEventListener('abort', abort, { once: true })
                     try {
                         await this.onUpgradeHandler?.(ctx)
-                        server.upgrade(req, { data: ctx })
-                        return
-                    } catch {
-                        return
+                    } catch (error) {
+                        if (error instanceof UpgradeRejection) return error.toResponse()
+                        this.emit('upgrade:error', ProxyError.from(error, 'UPGRADE_FAILED', { sessionId: ctx.sessionId, url: ctx.url }), ctx)
+                        return new Response('Internal Server Error', { status: 500 })
+                    } finally {
+                        req.signal.removeEventListener('abort', abort)
                     }
+                    // Bun answers with the first offered protocol unless told otherwise
+                    const selected = ctx.protocol && protocols.includes(ctx.protocol)
+                        ? { 'sec-websocket-protocol': ctx.protocol }
+                        : undefined
+                    if (server.upgrade(req, { data: ctx, headers: selected })) return
+                    this.emit('upgrade:aborted', ctx)
+                    return new Response('Bad Request', { status: 400 })
                 }
                 if (props.rootFunction) {
                     const response = await props.rootFunction(req)
@@ -48,19 +108,66 @@ export class WsServer extends EventEmitter {
             },
             websocket: {
                 open: (ws: Bun.ServerWebSocket<WsServerData>) => {
+                    ws.binaryType = props.binaryType ?? 'arraybuffer'
                     this.clients.set(ws.data.sessionId, ws)
+                    if (props.keepalive) this.startHeartbeat(ws, props.keepalive)
                     this.emit('open', ws.data)
                 },
-                close: (ws: Bun.ServerWebSocket<WsServerData>, code: number) => {
+                close: (ws: Bun.ServerWebSocket<WsServerData>, code: number, reason: string) => {
                     this.clients.delete(ws.data.sessionId)
-                    this.emit('close', ws.data, code)
+                    this.heartbeats.get(ws.data.sessionId)?.stop()
+                    this.heartbeats.delete(ws.data.sessionId)
+                    this.emit('close', ws.data, code, reason)
                 },
-                message: (ws: Bun.ServerWebSocket<WsServerData>, message: string) => {
+                message: (ws: Bun.ServerWebSocket<WsServerData>, message: WsMessageData) => {
                     this.emit('message', ws.data, message)
                 },
-                idleTimeout: 255,
+                drain: (ws: Bun.ServerWebSocket<WsServerData>) => {
+                    this.emit('drain', ws.data)
+                },
+                pong: (ws: Bun.ServerWebSocket<WsServerData>) => {
+                    this.heartbeats.get(ws.data.sessionId)?.pong()
+                },
+                idleTimeout: props.idleTimeout ?? 255,
             },
         });
+        if (terminate) {
+            this.terminator = new TlsTerminator(props.tls!, server.port!, (error, remoteAddress) => {
+                this.emit('tls:error', ProxyError.from(error, 'CLIENT_TLS'), remoteAddress)
+            }).listen(props.hostname, props.port)
+        }
+    }
+
+    /**
+     * Dead peers never answer a close frame, so they are terminated
+     */
+    private startHeartbeat(ws: Bun.ServerWebSocket<WsServerData>, options: KeepaliveOptions): void {
+        const heartbeat = new Heartbeat(options, () => ws.ping(), (missed) => {
+            this.emit('timeout', ws.data, missed)
+            ws.terminate()
+        })
+        this.heartbeats.set(ws.data.sessionId, heartbeat.start())
+    }
+
+    /**
+     * Stop accepting connections. Open clients stay connected unless `force`
+     * is set, in which case they are closed and the promise waits for them.
+     */
+    async stop(force: boolean = false): Promise<void> {
+        this.terminator?.stop()
+        if (force) await this.server.stop(true)
+        else this.server.stop()
+    }
+
+    /**
+     * Number of open clients
+     */
+    get connections(): number {
+        return this.clients.size
+    }
+
+    closeAll(code?: number, reason?: string) {
+        for (const client of this.clients.values()) client.close(code, reason)
     }
 
     onUpgrade(handler: UpgradeHandler): this {
@@ -68,12 +175,22 @@ export class WsServer extends EventEmitter {
         return this
     }
 
-    send(sessionId: string, message: string | ArrayBuffer) {
-        this.clients.get(sessionId)?.send(message);
+    /**
+     * @returns Bun's send status: -1 backpressure, 0 dropped, otherwise bytes sent
+     */
+    send(sessionId: string, message: WsMessageData): number {
+        return this.clients.get(sessionId)?.send(message) ?? 0;
+    }
+
+    /**
+     * Round-trip time of the client's last pong, with keepalive enabled
+     */
+    rtt(sessionId: string): number | undefined {
+        return this.heartbeats.get(sessionId)?.rtt
     }
 
-    close(sessionId: string) {
-        this.clients.get(sessionId)?.close();
+    close(sessionId: string, code?: number, reason?: string) {
+        this.clients.get(sessionId)?.close(code, reason);
     }
 
     public override on<K extends keyof WsServerEvents>(
@@ -84,8 +201,19 @@ export class WsServer extends EventEmitter {
     }
 }
 
-type UpgradeHandler = (data: {
-    sessionId: string
-    url: string
-    protocol?: string
-}) => Promise<void>
\ No newline at end of file
+type UpgradeHandler = (data: WsServerData) => Promise<void>
+
+/**
+ * Headers Bun needs to complete the upgrade, checked before the handler runs
+ */
+const isHandshake = (headers: Headers): boolean => {
+    return !!headers.get('sec-websocket-key') && headers.get('sec-websocket-version') === '13'
+}
+
+/**
+ * @param header    Sec-WebSocket-Protocol value, ex.: "ocpp2.0.1, ocpp1.6"
+ * @returns         ['ocpp2.0.1', 'ocpp1.6']
+ */
+export const parseProtocols = (header: string | null | undefined): string[] => {
+    return (header ?? '').split(',').map(protocol => protocol.trim()).filter(Boolean)
+}
\ No newline at end of file
@@ -0,0 +1,192 @@
+import net from "node:net"
+import tls from "node:tls"
+
+type TlsMaterial = string | Buffer | (string | Buffer)[]
+
+/**
+ * Certificate served for one SNI hostname (ex.: `*.example.com`)
+ */
+export type TlsCertificate = {
+    serverName: string,
+    cert: TlsMaterial,
+    key: TlsMaterial,
+    passphrase?: string,
+}
+
+/**
+ * - cert/key:              default certificate, served when no SNI entry matches
+ * - ca:                    trusted roots for client certificates
+ * - sni:                   certificates per hostname
+ * - requestCert:           ask clients for a certificate (mutual TLS)
+ * - rejectUnauthorized:    refuse clients without a certificate signed by `ca` (default true)
+ */
+export type WsTlsOptions = {
+    cert: TlsMaterial,
+    key: TlsMaterial,
+    ca?: TlsMaterial,
+    passphrase?: string,
+    sni?: TlsCertificate[],
+    requestCert?: boolean,
+    rejectUnauthorized?: boolean,
+}
+
+/**
+ * Peer certificate presented by a client over mutual TLS
+ */
+export type ClientCertificate = {
+    subject: Record<string, string>,
+    issuer: Record<string, string>,
+    serialNumber: string,
+    fingerprint256: string,
+    validFrom: string,
+    validTo: string,
+    authorized: boolean,
+}
+
+export type TlsPeer = {
+    remoteAddress?: string,
+    certificate?: ClientCertificate,
+}
+
+/**
+ * Bun.serve `tls` option: the default certificate followed by the SNI entries
+ */
+export const bunTlsOptions = (options: WsTlsOptions): Bun.TLSOptions[] => [
+    { cert: options.cert, key: options.key, ca: options.ca, passphrase: options.passphrase },
+    ...(options.sni ?? []).map(({ serverName, cert, key, passphrase }) => ({
+        serverName, cert, key, passphrase, ca: options.ca,
+    })),
+]
+
+const matchesServerName = (pattern: string, servername: string): boolean => {
+    if (!pattern.startsWith('*.')) return pattern.toLowerCase() === servername.toLowerCase()
+    const suffix = pattern.slice(1).toLowerCase()
+    const name = servername.toLowerCase()
+    return name.endsWith(suffix) && !name.slice(0, -suffix.length).includes('.')
+}
+
+const toClientCertificate = (socket: tls.TLSSocket): ClientCertificate | undefined => {
+    const peer = socket.getPeerCertificate()
+    if (!peer || !peer.subject) return
+    return {
+        subject: { ...peer.subject },
+        issuer: { ...peer.issuer },
+        serialNumber: peer.serialNumber,
+        fingerprint256: peer.fingerprint256,
+        validFrom: peer.valid_from,
+        validTo: peer.valid_to,
+        authorized: socket.authorized,
+    }
+}
+
+/**
+ * Bun.serve does not expose the peer certificate, so mutual TLS is
+ * terminated here and each connection is piped to the plain HTTP server
+ * listening on loopback. The loopback source port identifies the TLS
+ * peer when the upgrade request reaches Bun.serve.
+ */
+export class TlsTerminator {
+    private readonly peers: Map<number, TlsPeer> = new Map()
+    private readonly server: tls.Server
+
+    /**
+     * @param onClientError     called when a client fails the handshake, ex.: no trusted certificate
+     */
+    constructor(
+        options: WsTlsOptions,
+        private readonly backendPort: number,
+        onClientError: (error: Error, remoteAddress?: string) => void = () => {}
+    ) {
+        const contexts = (options.sni ?? []).map(entry => ({
+            serverName: entry.serverName,
+            context: tls.createSecureContext({
+                cert: entry.cert, key: entry.key, passphrase: entry.passphrase, ca: options.ca,
+            }),
+        }))
+
+        this.server = tls.createServer({
+            cert: options.cert,
+            key: options.key,
+            ca: options.ca,
+            passphrase: options.passphrase,
+            requestCert: options.requestCert ?? false,
+            rejectUnauthorized: options.rejectUnauthorized ?? true,
+            SNICallback: contexts.length > 0
+                ? (servername, callback) => {
+                    const found = contexts.find(({ serverName }) => matchesServerName(serverName, servername))
+                    callback(null, found?.context)
+                }
+                : undefined,
+        }, (socket) => this.pipe(socket))
+        this.server.on('tlsClientError', (error, socket) => onClientError(error, socket.remoteAddress))
+    }
+
+    listen(hostname: string, port: number): this {
+        this.server.listen(port, hostname)
+        return this
+    }
+
+    stop(): void {
+        this.server.close()
+    }
+
+    /**
+     * @param port  source port of the loopback connection, from `server.requestIP`
+     */
+    peer(port: number): TlsPeer | undefined {
+        return this.peers.get(port)
+    }
+
+    private pipe(socket: tls.TLSSocket): void {
+        const peer: TlsPeer = {
+            remoteAddress: socket.remoteAddress,
+            certificate: toClientCertificate(socket),
+        }
+        const backend = net.connect(this.backendPort, '127.0.0.1', () => {
+            const localPort = backend.localPort!
+            this.peers.set(localPort, peer)
+            backend.once('close', () => this.peers.delete(localPort))
+            socket.pipe(backend)
+            backend.pipe(socket)
+        })
+        backend.on('error', () => socket.destroy())
+        backend.on('close', () => socket.destroy())
+        socket.on('error', () => backend.destroy())
+        socket.on('close', () => backend.destroy())
+    }
+}
+
+/**
+ * TLS settings of an upstream (wss://) connection:
+ * - ca:                    trusted roots, for backends behind a private CA
+ * - cert/key:              client certificate presented to the backend
+ * - servername:            SNI hostname sent in the handshake
+ * - rejectUnauthorized:    verify the backend certificate (default true)
+ */
+export type UpstreamTlsOptions = {
+    ca?: TlsMaterial,
+    cert?: TlsMaterial,
+    key?: TlsMaterial,
+    passphrase?: string,
+    servername?: string,
+    rejectUnauthorized?: boolean,
+}
+
+/**
+ * Bun only reports "Failed to connect" for unreadable material, so check it upfront
+ * @throws Error naming the offending option
+ */
+export const validateUpstreamTls = (options: UpstreamTlsOptions): void => {
+    if (Boolean(options.cert) !== Boolean(options.key)) {
+        throw new Error('Invalid upstream TLS options: cert and key must be set together')
+    }
+    const check = (name: string, context: tls.SecureContextOptions) => {
+        try {
+            tls.createSecureContext(context)
+        } catch (error) {
+            throw new Error(`Invalid upstream TLS ${name}: ${(error as Error).message}`)
+        }
+    }
+    if (options.ca) check('ca', { ca: options.ca })
+    if (options.cert) check('cert/key', { cert: options.cert, key: options.key, passphrase: options.passphrase })
+}